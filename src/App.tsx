@@ -5,6 +5,9 @@ import NavigationPage from './pages/NavigationPage'
 import WeatherPage from './pages/WeatherPage'
 import SettingsPage from './pages/SettingsPage'
 import ReportsPage from './pages/ReportsPage'
+import LogbookPage from './pages/LogbookPage'
+import OfflinePage from './pages/OfflinePage'
+import UpdatePrompt from './components/UpdatePrompt'
 
 function App() {
   return (
@@ -16,8 +19,11 @@ function App() {
             <Route path="weather" element={<WeatherPage />} />
             <Route path="settings" element={<SettingsPage />} />
             <Route path="reports" element={<ReportsPage />} />
+            <Route path="logbook" element={<LogbookPage />} />
+            <Route path="offline" element={<OfflinePage />} />
           </Route>
         </Routes>
+        <UpdatePrompt />
       </div>
     </SettingsProvider>
   )
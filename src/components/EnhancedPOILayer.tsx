@@ -309,6 +309,28 @@ const EnhancedPOILayer: React.FC<EnhancedPOILayerProps> = ({ data, poiType }) =>
             className: 'enhanced-poi-popup'
           })
           
+          // Locks and bridges can be marked "avoid" for routing
+          if (actualType === 'lock' || actualType === 'bridge') {
+            marker.on('popupopen', (e: L.PopupEvent) => {
+              const button = e.popup.getElement()?.querySelector<HTMLButtonElement>('.poi-avoid-button')
+              if (!button) return
+              button.onclick = () => {
+                window.dispatchEvent(new CustomEvent('avoidObject', {
+                  detail: {
+                    object: {
+                      osmType: el.type === 'node' ? 'node' : 'way',
+                      osmId: el.id,
+                      kind: actualType,
+                      name: el.tags?.name,
+                      at: [lat, lon]
+                    }
+                  }
+                }))
+                marker.closePopup()
+              }
+            })
+          }
+          
           layer.addLayer(marker)
         }
       }
@@ -470,6 +492,15 @@ const createPopupHTML = (enhancedData: any, iconEmoji: string, actualType: strin
           </div>
         ` : ''}
 
+        ${actualType === 'lock' || actualType === 'bridge' ? `
+          <div style="text-align: center; margin-top: 16px;">
+            <button class="poi-avoid-button"
+                    style="width: 100%; padding: 8px 12px; border: 1px solid #FCA5A5; border-radius: 8px; background-color: #FEF2F2; color: #DC2626; font-size: 14px; cursor: pointer;">
+              🚫 Avoid this ${actualType} when routing
+            </button>
+          </div>
+        ` : ''}
+
         <div style="text-align: center; margin-top: 16px;">
           <button onclick="this.style.display='none'; this.nextElementSibling.style.display='block';" 
                   style="width: 100%; padding: 8px 12px; border: 1px solid #D1D5DB; border-radius: 8px; background-color: white; color: #374151; font-size: 14px; cursor: pointer;">
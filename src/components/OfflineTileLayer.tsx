@@ -0,0 +1,54 @@
+import React, { useEffect } from 'react'
+import L from 'leaflet'
+import { useMap } from 'react-leaflet'
+import { readCachedTile } from '../utils/baseMap'
+
+interface OfflineTileLayerProps {
+  url: string
+  attribution: string
+  maxZoom?: number
+  bounds?: L.LatLngBoundsExpression
+}
+
+// Tile layer that shows tiles from a downloaded region pack when it has them, and fetches
+// the rest from the tile server as usual
+class CachedTileLayer extends L.TileLayer {
+  protected createTile(coords: L.Coords, done: L.DoneCallback) {
+    const tile = document.createElement('img')
+    const release = () => {
+      if (tile.src.startsWith('blob:')) URL.revokeObjectURL(tile.src)
+    }
+    const url = this.getTileUrl(coords)
+    L.DomEvent.on(tile, 'load', () => {
+      release()
+      this._tileOnLoad(done, tile)
+    })
+    L.DomEvent.on(tile, 'error', () => {
+      release()
+      this._tileOnError(done, tile, new Error(`Tile failed to load: ${url}`))
+    })
+    tile.alt = ''
+    tile.setAttribute('role', 'presentation')
+
+    readCachedTile(url).then(blob => {
+      tile.src = blob ? URL.createObjectURL(blob) : url
+    })
+    return tile
+  }
+}
+
+const OfflineTileLayer: React.FC<OfflineTileLayerProps> = ({ url, attribution, maxZoom, bounds }) => {
+  const map = useMap()
+
+  useEffect(() => {
+    const layer = new CachedTileLayer(url, { attribution, maxZoom, bounds })
+    layer.addTo(map)
+    return () => {
+      layer.remove()
+    }
+  }, [map, url, attribution, maxZoom, bounds])
+
+  return null
+}
+
+export default OfflineTileLayer
@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react'
+import { RefreshCw, X } from 'lucide-react'
+import { applyUpdate, hasUpdateWaiting } from '../utils/serviceWorkerRegistration'
+
+// Banner offering to reload when a new build of the app has been downloaded
+const UpdatePrompt: React.FC = () => {
+  const [isVisible, setIsVisible] = useState(hasUpdateWaiting)
+
+  useEffect(() => {
+    const handleUpdateAvailable = () => setIsVisible(true)
+    window.addEventListener('appUpdateAvailable', handleUpdateAvailable)
+    return () => window.removeEventListener('appUpdateAvailable', handleUpdateAvailable)
+  }, [])
+
+  if (!isVisible) return null
+
+  return (
+    <div className="fixed top-4 left-1/2 transform -translate-x-1/2 z-[10000] bg-blue-600 text-white px-4 py-3 rounded-lg shadow-2xl flex items-center gap-3 w-[calc(100%-2rem)] max-w-md">
+      <RefreshCw size={20} className="flex-shrink-0" />
+      <span className="flex-1 text-sm font-medium">A new version of VaarPro is available</span>
+      <button
+        onClick={applyUpdate}
+        className="bg-white text-blue-600 px-3 py-1 rounded-md text-sm font-semibold hover:bg-blue-50 transition-colors"
+      >
+        Reload
+      </button>
+      <button
+        onClick={() => setIsVisible(false)}
+        className="p-1 rounded-md hover:bg-white/20 transition-colors"
+        title="Later"
+      >
+        <X size={18} />
+      </button>
+    </div>
+  )
+}
+
+export default UpdatePrompt
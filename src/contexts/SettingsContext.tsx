@@ -15,7 +15,11 @@ interface Settings {
   boatDraught: number
   // Navigation settings
   autoReroute: boolean
+  offRouteMeters: number // Distance from the route that counts as off route
+  trackIntervalSeconds: number // Time between recorded logbook track points
   speedUnits: string
+  bridgeWaitMinutes: number // Expected wait at a movable bridge, used in route planning
+  lockWaitMinutes: number // Expected wait plus locking time at a lock
   // Notification settings
   weatherAlerts: boolean
   hazardReports: boolean
@@ -47,7 +51,11 @@ const defaultSettings: Settings = {
   boatHeight: 2.0,
   boatDraught: 0.7,
   autoReroute: true,
+  offRouteMeters: 50,
+  trackIntervalSeconds: 10,
   speedUnits: 'knots',
+  bridgeWaitMinutes: 5,
+  lockWaitMinutes: 15,
   weatherAlerts: true,
   hazardReports: true,
   navigationAlerts: true,
@@ -0,0 +1,255 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react'
+import { MapContainer, TileLayer, Marker, Polyline, useMap } from 'react-leaflet'
+import 'leaflet/dist/leaflet.css'
+import { AlertTriangle, BookOpen, Navigation, Pause, Play, Settings, Trash2 } from 'lucide-react'
+import L from 'leaflet'
+import { useSettings } from '../contexts/SettingsContext'
+import { PositionProvider, createReplayProvider } from '../utils/positionProvider'
+import { Trip, deleteTrip, loadTrips, trackToPositions } from '../utils/tripLog'
+import { formatClock, formatDistance, formatSpeed, formatTime } from '../utils/poiUtils'
+
+// Zoom to the selected trip
+const FitTrack: React.FC<{ track: [number, number][] }> = ({ track }) => {
+  const map = useMap()
+  useEffect(() => {
+    if (track.length > 1) map.fitBounds(L.latLngBounds(track), { padding: [30, 30] })
+  }, [map, track])
+  return null
+}
+
+const REPLAY_SPEEDUPS = [10, 30, 60, 120]
+
+const LogbookPage: React.FC = () => {
+  const { settings } = useSettings()
+  const [trips, setTrips] = useState<Trip[]>(loadTrips)
+  const [selectedId, setSelectedId] = useState<string | null>(trips[0]?.id ?? null)
+  const [replayIndex, setReplayIndex] = useState<number | null>(null) // Track point the replay is at
+  const [replaySpeedup, setReplaySpeedup] = useState(60)
+  const [isReplaying, setIsReplaying] = useState(false)
+  const replayRef = useRef<PositionProvider | null>(null)
+
+  const selectedTrip = trips.find(trip => trip.id === selectedId) || null
+  const replayPoint = selectedTrip && replayIndex !== null ? selectedTrip.track[replayIndex] : null
+  const selectedLine = useMemo<[number, number][]>(
+    () => selectedTrip ? selectedTrip.track.map(point => [point.lat, point.lng]) : [],
+    [selectedTrip]
+  )
+
+  const stopReplay = () => {
+    replayRef.current?.stop()
+    replayRef.current = null
+    setIsReplaying(false)
+  }
+
+  const startReplay = () => {
+    if (!selectedTrip) return
+    stopReplay()
+    const provider = createReplayProvider(trackToPositions(selectedTrip.track), replaySpeedup)
+    replayRef.current = provider
+    setIsReplaying(true)
+    let index = 0
+    provider.start(() => {
+      setReplayIndex(index)
+      if (++index >= selectedTrip.track.length) setIsReplaying(false)
+    })
+  }
+
+  // A new selection starts without a boat on the map
+  useEffect(() => {
+    stopReplay()
+    setReplayIndex(null)
+  }, [selectedId])
+
+  useEffect(() => stopReplay, [])
+
+  const handleDelete = (trip: Trip) => {
+    if (!confirm(`Delete the trip of ${new Date(trip.startedAt).toLocaleDateString()}?`)) return
+    deleteTrip(trip.id)
+    const remaining = loadTrips()
+    setTrips(remaining)
+    if (selectedId === trip.id) setSelectedId(remaining[0]?.id ?? null)
+  }
+
+  const tripTitle = (trip: Trip) => trip.startHarbour || trip.endHarbour
+    ? `${trip.startHarbour || 'Unknown'} → ${trip.endHarbour || 'Unknown'}`
+    : `Trip of ${new Date(trip.startedAt).toLocaleDateString()}`
+
+  return (
+    <div className="min-h-screen bg-gray-50 pt-16 pb-28">
+      <div className="max-w-4xl mx-auto px-4">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-marine-blue mb-2">Logbook</h1>
+          <p className="text-gray-600">Tracks and statistics of your past trips</p>
+        </div>
+
+        {trips.length === 0 ? (
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-8 text-center text-gray-600">
+            No trips yet. Tracks are recorded while you navigate.
+          </div>
+        ) : (
+          <>
+            {/* Map with the selected track */}
+            {selectedTrip && (
+              <div className="bg-white rounded-2xl shadow-lg border border-gray-200 overflow-hidden mb-6">
+                <div className="h-80">
+                  <MapContainer center={selectedLine[0] || [52.3676, 4.9041]} zoom={13} className="h-full w-full">
+                    <TileLayer
+                      url="https://service.pdok.nl/brt/achtergrondkaart/wmts/v2_0/standaard/EPSG:3857/{z}/{x}/{y}.png"
+                      attribution='&copy; <a href="https://www.pdok.nl/">PDOK</a> | <a href="https://www.kadaster.nl/">Kadaster</a>'
+                      maxZoom={19}
+                    />
+                    <FitTrack track={selectedLine} />
+                    <Polyline positions={selectedLine} pathOptions={{ color: '#0ea5e9', weight: 4, opacity: 0.9 }} />
+                    {replayPoint && (
+                      <Marker
+                        position={[replayPoint.lat, replayPoint.lng]}
+                        icon={L.divIcon({
+                          className: 'custom-boat-marker',
+                          html: `<img src="/boat-icon.svg" alt="" style="
+                            width: 32px;
+                            height: 32px;
+                            transform: rotate(${replayPoint.cog ?? 0}deg);
+                            filter: drop-shadow(0 2px 3px rgba(0,0,0,0.4));
+                          " />`,
+                          iconSize: [32, 32],
+                          iconAnchor: [16, 16]
+                        })}
+                      />
+                    )}
+                  </MapContainer>
+                </div>
+                <div className="flex items-center justify-between gap-3 px-4 py-3 border-t border-gray-200">
+                  <div className="text-sm text-gray-600">
+                    {replayPoint
+                      ? `${formatClock(replayPoint.t)} • ${formatSpeed(replayPoint.sog, settings.speedUnits)}`
+                      : 'Replay the trip on the map'}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={replaySpeedup}
+                      onChange={(e) => setReplaySpeedup(Number(e.target.value))}
+                      className="px-2 py-1.5 bg-gray-50 border border-gray-300 rounded-lg text-sm text-gray-900"
+                      title="Replay speed"
+                    >
+                      {REPLAY_SPEEDUPS.map(speedup => (
+                        <option key={speedup} value={speedup}>{speedup}x</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={isReplaying ? stopReplay : startReplay}
+                      className="flex items-center gap-2 px-4 py-2 bg-marine-blue text-white rounded-lg font-medium hover:bg-blue-700 transition-colors text-sm"
+                    >
+                      {isReplaying ? <Pause size={16} /> : <Play size={16} />}
+                      {isReplaying ? 'Stop' : 'Replay'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Trip list */}
+            <div className="space-y-4">
+              {trips.map((trip) => (
+                <div
+                  key={trip.id}
+                  onClick={() => setSelectedId(trip.id)}
+                  className={`bg-white rounded-2xl shadow-lg border p-6 cursor-pointer transition-colors ${
+                    trip.id === selectedId ? 'border-marine-blue ring-2 ring-blue-200' : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <div className="flex items-start justify-between mb-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900">
+                        {tripTitle(trip)}
+                        {trip.simulated && <span className="ml-2 text-xs font-medium text-purple-700 bg-purple-100 px-2 py-0.5 rounded-full">Simulated</span>}
+                      </h3>
+                      <p className="text-sm text-gray-600">
+                        {new Date(trip.startedAt).toLocaleDateString()} • {formatClock(trip.startedAt)} – {formatClock(trip.endedAt)}
+                      </p>
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleDelete(trip)
+                      }}
+                      className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                      title="Delete trip"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </div>
+
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <div className="text-gray-500">Distance</div>
+                      <div className="font-semibold text-gray-900">{formatDistance(trip.distance)}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-500">Moving time</div>
+                      <div className="font-semibold text-gray-900">{formatTime(Math.round(trip.movingSeconds / 60))}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-500">Average speed</div>
+                      <div className="font-semibold text-gray-900">{formatSpeed(trip.averageSpeed, settings.speedUnits)}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-500">Max speed</div>
+                      <div className="font-semibold text-gray-900">{formatSpeed(trip.maxSpeed, settings.speedUnits)}</div>
+                    </div>
+                  </div>
+
+                  {(trip.locks.length > 0 || trip.bridges.length > 0) && (
+                    <div className="mt-4 text-sm text-gray-700">
+                      {trip.locks.length > 0 && <div>🚦 {trip.locks.length} {trip.locks.length === 1 ? 'lock' : 'locks'}: {trip.locks.join(', ')}</div>}
+                      {trip.bridges.length > 0 && <div>🌉 {trip.bridges.length} {trip.bridges.length === 1 ? 'bridge' : 'bridges'}: {trip.bridges.join(', ')}</div>}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Bottom Navigation Panel */}
+      <div className="fixed bottom-0 left-0 right-0 z-[9999] bg-gradient-to-br from-blue-600 to-cyan-600 backdrop-blur-md border-t border-white/30 shadow-2xl">
+        <div className="flex items-center justify-center gap-4 px-4 sm:px-6 py-3 sm:py-4">
+          <button
+            onClick={() => window.location.href = '/'}
+            className="flex items-center gap-2 px-4 sm:px-6 py-3 bg-white/20 hover:bg-white/30 rounded-xl transition-all duration-200 text-white text-sm"
+          >
+            <Navigation size={20} />
+            <span className="font-medium">Navigation</span>
+          </button>
+
+          <button
+            onClick={() => window.location.href = '/reports'}
+            className="flex items-center gap-2 px-4 sm:px-6 py-3 bg-white/20 hover:bg-white/30 rounded-xl transition-all duration-200 text-white text-sm"
+          >
+            <AlertTriangle size={20} />
+            <span className="font-medium">Reports</span>
+          </button>
+
+          <button
+            onClick={() => window.location.href = '/logbook'}
+            className="flex items-center gap-2 px-4 sm:px-6 py-3 bg-white text-blue-600 hover:bg-blue-50 rounded-xl transition-all duration-200 font-medium shadow-lg text-sm"
+          >
+            <BookOpen size={20} />
+            <span className="font-medium">Logbook</span>
+          </button>
+
+          <button
+            onClick={() => window.location.href = '/settings'}
+            className="flex items-center gap-2 px-4 sm:px-6 py-3 bg-white/20 hover:bg-white/30 rounded-xl transition-all duration-200 text-white text-sm"
+          >
+            <Settings size={20} />
+            <span className="font-medium">Settings</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default LogbookPage
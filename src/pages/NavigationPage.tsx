@@ -1,12 +1,30 @@
 import React, { useState, useEffect, useRef } from 'react'
-import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap } from 'react-leaflet'
+import { MapContainer, TileLayer, Marker, Popup, Polyline, Polygon, useMap } from 'react-leaflet'
 import 'leaflet/dist/leaflet.css'
-import { Navigation, AlertTriangle, Settings, X } from 'lucide-react'
+import { Navigation, AlertTriangle, Settings, X, Play, Pause, BookOpen } from 'lucide-react'
 import L from 'leaflet'
-import { findWaterwayRoute } from '../utils/routing'
+import { findMultiStopRoute, RouteProgress, selectAlternative } from '../utils/routing'
+import { createCostModel } from '../utils/passageCosts'
+import { AvoidObject, AvoidSet, createAvoidSet, isObjectAvoided } from '../utils/avoidAreas'
+import { computeRouteInWorker, isRegionCachedInWorker } from '../utils/routingWorkerClient'
+import { isOverpassError, overpass } from '../utils/overpassClient'
+import { OverpassDataClass, cachedOverpassQuery } from '../utils/overpassCache'
+import {
+  DataTile, MapDataLayer, POI_LAYER_FILTERS, PoiLayer, createMapDataStore, qCombinedPOIs, qWaterways, qWaterwaysFallback, tileBounds,
+  tilesForBounds
+} from '../utils/mapDataStore'
+import { getMapTileConfig } from '../utils/baseMap'
+import { readPackRouting, readPackTile } from '../utils/offlinePacks'
+import { BoatPosition, SimulationProvider, createGeolocationProvider, createSimulationProvider } from '../utils/positionProvider'
+import { NavigationProgress, createRouteTracker } from '../utils/routeTracking'
+import { OffRouteState, createOffRouteDetector } from '../utils/offRoute'
+import { TrackRecorder, TripLandmark, createTrackRecorder, saveTrip } from '../utils/tripLog'
+import { VoiceGuidance, VoiceGuidanceOptions, createFakeSpeechBackend, createVoiceGuidance, createWebSpeechBackend } from '../utils/voiceGuidance'
+import { describeViolation } from '../utils/vesselConstraints'
 import EnhancedPOILayer from '../components/EnhancedPOILayer'
+import OfflineTileLayer from '../components/OfflineTileLayer'
 import { useSettings } from '../contexts/SettingsContext'
-import { extractRoutePOIs, extractRoutePOIsWithCorridor, formatTime } from '../utils/poiUtils'
+import { extractRoutePOIs, extractRoutePOIsWithCorridor, formatClock, formatDistance, formatTime } from '../utils/poiUtils'
 
 // Enhanced POI Popup Styles
 const enhancedPopupStyles = `
@@ -157,15 +175,49 @@ const useMapClick = (mapRef: React.RefObject<L.Map>, mapClickMode: string | null
   }, [mapRef, mapClickMode, onMapClick])
 }
 
+// PDOK only covers the Netherlands
+const PDOK_BOUNDS: L.LatLngBoundsExpression = [[50.5, 3.0], [54.0, 7.5]]
+
+// Distinct line styles for alternative routes, drawn below the active route
+const ALTERNATIVE_ROUTE_STYLES: L.PolylineOptions[] = [
+  { color: '#6366f1', dashArray: '12 8' },
+  { color: '#f59e0b', dashArray: '4 8' },
+  { color: '#ec4899', dashArray: '16 6 4 6' }
+]
+
 // Route Layer Component
-const RouteLayer: React.FC<{ coordinates: [number, number][], isVisible: boolean }> = ({ coordinates, isVisible }) => {
+const RouteLayer: React.FC<{
+  coordinates: [number, number][]
+  isVisible: boolean
+  alternatives?: [number, number][][]
+  onSelectAlternative?: (index: number) => void
+}> = ({ coordinates, isVisible, alternatives = [], onSelectAlternative }) => {
   const map = useMap()
+  const selectRef = useRef(onSelectAlternative)
+  selectRef.current = onSelectAlternative
+  
+  // Alternatives only change together with the active route, so the route layer
+  // does not need to be rebuilt (and the map refitted) on every render
+  const alternativesKey = alternatives.map(line => line.length).join(',')
   
   useEffect(() => {
     if (!isVisible || coordinates.length < 2) return
     
     const routeLayer = L.layerGroup()
     
+    // Alternatives first so the active route stays on top; tap one to make it active
+    alternatives.forEach((line, index) => {
+      if (line.length < 2) return
+      const style = ALTERNATIVE_ROUTE_STYLES[index % ALTERNATIVE_ROUTE_STYLES.length]
+      const alternativeLine = L.polyline(line, { ...style, weight: 5, opacity: 0.75, lineCap: 'round', lineJoin: 'round' })
+      alternativeLine.bindTooltip(`Alternative ${index + 1} - tap to use`, { sticky: true })
+      alternativeLine.on('click', (e: L.LeafletMouseEvent) => {
+        L.DomEvent.stopPropagation(e)
+        selectRef.current?.(index)
+      })
+      routeLayer.addLayer(alternativeLine)
+    })
+    
     // Create main route line with higher z-index
     const routeLine = L.polyline(coordinates, {
       color: '#111827', // Dark color
@@ -221,7 +273,7 @@ const RouteLayer: React.FC<{ coordinates: [number, number][], isVisible: boolean
     return () => {
       map.removeLayer(routeLayer)
     }
-  }, [coordinates, isVisible, map])
+  }, [coordinates, isVisible, map, alternativesKey])
   
   return null
 }
@@ -252,6 +304,11 @@ const calculateGeographicDistance = (lat1: number, lon1: number, lat2: number, l
 
 
 
+// Locks, bridges and harbours along the route, for the logbook
+const poiLandmarks = (pois: any[]): TripLandmark[] => pois
+  .filter(poi => ['lock', 'bridge', 'harbor', 'marina'].includes(poi.type))
+  .map(poi => ({ kind: poi.type === 'lock' || poi.type === 'bridge' ? poi.type : 'harbour', name: poi.name, at: poi.coordinates }))
+
 const NavigationPage: React.FC = () => {
   const { settings, updateSetting } = useSettings()
   
@@ -273,6 +330,22 @@ const NavigationPage: React.FC = () => {
   const [currentStep, setCurrentStep] = useState(0)
   const [showBottomNavigationPanel, setShowBottomNavigationPanel] = useState(false)
   const [routePOIs, setRoutePOIs] = useState<any[]>([])
+  const [routeProgress, setRouteProgress] = useState<RouteProgress | null>(null)
+  const routeAbortRef = useRef<AbortController | null>(null)
+  const [boatPosition, setBoatPosition] = useState<BoatPosition | null>(null)
+  const [navigationProgress, setNavigationProgress] = useState<NavigationProgress | null>(null)
+  const [offRouteState, setOffRouteState] = useState<OffRouteState>('on-route')
+  const offRouteDetectorRef = useRef(createOffRouteDetector()) // Outlives single routes, for the reroute cooldown
+  const offRouteHandlerRef = useRef<(progress: NavigationProgress) => void>(() => {})
+  const voiceGuidanceRef = useRef<VoiceGuidance | null>(null)
+  const voiceOptionsRef = useRef<VoiceGuidanceOptions | null>(null)
+  // Simulated trip instead of the GPS; `?replay` (optionally `?replay=10` for 10x) starts in it
+  const [simulation, setSimulation] = useState<{ speedup: number, paused: boolean, drift: number } | null>(() => {
+    const replay = new URLSearchParams(window.location.search).get('replay')
+    return replay !== null ? { speedup: Number(replay) || 1, paused: false, drift: 0 } : null
+  })
+  const simulationRef = useRef<SimulationProvider | null>(null)
+  const tripRecorderRef = useRef<TrackRecorder | null>(null) // Spans reroutes, ends when navigation stops
   
   // Map data state
   const [waterwaysData, setWaterwaysData] = useState<any>(null)
@@ -282,8 +355,9 @@ const NavigationPage: React.FC = () => {
   const [gasStationsData, setGasStationsData] = useState<any>(null)
   const [slipwaysData, setSlipwaysData] = useState<any>(null)
   
-  // Viewport-based caching
-  const [loadedViewports, setLoadedViewports] = useState<Set<string>>(new Set())
+  // Tile-based map data, merged as the map moves
+  const [mapData] = useState(createMapDataStore)
+  const loadingTilesRef = useRef(new Set<string>()) // "layer|z/x/y" being fetched
   
   // UI state
   const [showWaterways, setShowWaterways] = useState(false)
@@ -315,470 +389,149 @@ const NavigationPage: React.FC = () => {
   }>>([])
   
   // Navigation points
-  const [mapClickMode, setMapClickMode] = useState<'start' | 'end' | 'alert' | 'report' | null>(null)
+  const [mapClickMode, setMapClickMode] = useState<'start' | 'end' | 'via' | 'avoid' | 'alert' | 'report' | null>(null)
   const [startPoint, setStartPoint] = useState<[number, number] | null>(null)
   const [endPoint, setEndPoint] = useState<[number, number] | null>(null)
+  const [viaPoints, setViaPoints] = useState<[number, number][]>([]) // Intermediate stops, in sailing order
+  const [departureTime, setDepartureTime] = useState('') // datetime-local value, empty = now
+  const [avoidSet, setAvoidSet] = useState<AvoidSet>(createAvoidSet) // Areas and locks/bridges to route around
+  const [draftAvoidArea, setDraftAvoidArea] = useState<[number, number][]>([]) // Polygon being drawn
   
   // Map zoom level
   
   const mapRef = useRef<L.Map | null>(null)
 
-  // Helper function to get tile URL and attribution based on map style
-  const getMapTileConfig = (mapStyle: string) => {
-    switch (mapStyle) {
-      case 'standard':
-        return {
-          url: 'https://service.pdok.nl/brt/achtergrondkaart/wmts/v2_0/standaard/EPSG:3857/{z}/{x}/{y}.png',
-          attribution: '&copy; <a href="https://www.pdok.nl/">PDOK</a> | <a href="https://www.kadaster.nl/">Kadaster</a>'
-        }
-      case 'satellite':
-        return {
-          url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
-          attribution: '&copy; <a href="https://www.esri.com/">Esri</a>'
-        }
-      case 'terrain':
-        return {
-          url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}',
-          attribution: '&copy; <a href="https://www.esri.com/">Esri</a>'
-        }
-      default:
-        return {
-          url: 'https://service.pdok.nl/brt/achtergrondkaart/wmts/v2_0/standaard/EPSG:3857/{z}/{x}/{y}.png',
-          attribution: '&copy; <a href="https://www.pdok.nl/">PDOK</a> | <a href="https://www.kadaster.nl/">Kadaster</a>'
-        }
-    }
-  }
-
-  // Helper function to create bbox string for Overpass API
-  const bboxString = (bounds: L.LatLngBounds) => {
-    const sw = bounds.getSouthWest()
-    const ne = bounds.getNorthEast()
-    const bbox = `${sw.lat},${sw.lng},${ne.lat},${ne.lng}`
-    console.log('📍 Bbox created:', bbox, 'from bounds:', bounds)
-    return bbox
-  }
-
-  // Helper function to create viewport key for caching
-  const createViewportKey = (bounds: L.LatLngBounds, zoom: number) => {
-    const sw = bounds.getSouthWest()
-    const ne = bounds.getNorthEast()
-    // Round to ~1km grid for caching
-    const gridSize = 0.01
-    const key = `${Math.floor(sw.lat / gridSize) * gridSize},${Math.floor(sw.lng / gridSize) * gridSize},${Math.floor(ne.lat / gridSize) * gridSize},${Math.floor(ne.lng / gridSize) * gridSize},${zoom}`
-    return key
-  }
-
-  // Overpass API queries - Focus on navigable waterways only
-  const qWaterways = (bounds: L.LatLngBounds) => {
-    const bbox = bboxString(bounds)
-    return `[out:json][timeout:60];
-      way["waterway"~"^(canal|river|fairway|shipyard|navigation)$"](${bbox});
-      out tags geom qt;`
-  }
-
-  const qPOIs = (bounds: L.LatLngBounds) => {
-    const bbox = bboxString(bounds)
-    return `[out:json][timeout:60];(
-        node["waterway"="lock_gate"](${bbox});
-        way["waterway"="lock_gate"](${bbox});
-        node["lock"="yes"](${bbox});
-        way["lock"="yes"](${bbox});
-        node["waterway"="lock"](${bbox});
-        way["waterway"="lock"](${bbox});
-        way["bridge"]["waterway"](${bbox});
-        way["bridge"]["seamark:type"](${bbox});
-        way["bridge"]["seamark:bridge:category"](${bbox});
-        way["bridge"]["seamark:bridge:movable"](${bbox});
-        way["bridge"]["seamark:bridge:fixed"](${bbox});
-        way["bridge"]["seamark:bridge:opening"](${bbox});
-      ); out tags center qt;`
-  }
-
-  // Separate query for harbors and marinas (inspired by kanaalkaart.html)
-  const qHarborsMarinas = (bounds: L.LatLngBounds) => {
-    const bbox = bboxString(bounds)
-    return `[out:json][timeout:60];(
-        node["leisure"="marina"](${bbox});
-        way["leisure"="marina"](${bbox});
-        node["seamark:type"="harbour"]["seamark:harbour:category"~"marina|yacht_harbour"](${bbox});
-        node["tourism"="hotel"]["mooring"="yes"](${bbox});
-        node["mooring"="yes"](${bbox});
-        way["mooring"="yes"](${bbox});
-        node["seamark:type"="pontoon"](${bbox});
-        node["harbour"](${bbox});
-        way["harbour"](${bbox});
-        node["seamark_type"="harbour"](${bbox});
-      ); out tags center qt;`
-  }
-
-  // Query for gas stations and fuel points
-  const qGasStations = (bounds: L.LatLngBounds) => {
-    const bbox = bboxString(bounds)
-    return `[out:json][timeout:60];(
-        node["amenity"="fuel"](${bbox});
-        way["amenity"="fuel"](${bbox});
-        node["seamark:type"="fuel"](${bbox});
-        node["fuel"](${bbox});
-        way["fuel"](${bbox});
-        node["seamark:fuel:type"](${bbox});
-      ); out tags center qt;`
-  }
-
-  // Query for slipways (scheepshelling)
-  const qSlipways = (bounds: L.LatLngBounds) => {
-    const bbox = bboxString(bounds)
-    return `[out:json][timeout:60];(
-        node["leisure"="slipway"](${bbox});
-        way["leisure"="slipway"](${bbox});
-        node["waterway"="slipway"](${bbox});
-        way["waterway"="slipway"](${bbox});
-        node["seamark:type"="slipway"](${bbox});
-        node["slipway"](${bbox});
-        way["slipway"](${bbox});
-        node["boat:launching"](${bbox});
-        way["boat:launching"](${bbox});
-      ); out tags center qt;`
-  }
-
-  // Combined query for multiple POI types (more efficient)
-  const qCombinedPOIs = (bounds: L.LatLngBounds, types: string[]) => {
-    const bbox = bboxString(bounds)
-    let query = `[out:json][timeout:60];(`
-    
-    if (types.includes('locks')) {
-      query += `
-        node["waterway"="lock_gate"](${bbox});
-        way["waterway"="lock_gate"](${bbox});
-        node["lock"="yes"](${bbox});
-        way["lock"="yes"](${bbox});
-        node["waterway"="lock"](${bbox});
-        way["waterway"="lock"](${bbox});`
-    }
-    
-    if (types.includes('bridges')) {
-      query += `
-        way["bridge"]["waterway"](${bbox});
-        way["bridge"]["seamark:type"](${bbox});
-        way["bridge"]["seamark:bridge:category"](${bbox});
-        way["bridge"]["seamark:bridge:movable"](${bbox});
-        way["bridge"]["seamark:bridge:fixed"](${bbox});
-        way["bridge"]["seamark:bridge:opening"](${bbox});`
-    }
-    
-    if (types.includes('harbors')) {
-      query += `
-        node["leisure"="marina"](${bbox});
-        way["leisure"="marina"](${bbox});
-        node["seamark:type"="harbour"]["seamark:harbour:category"~"marina|yacht_harbour"](${bbox});
-        node["tourism"="hotel"]["mooring"="yes"](${bbox});
-        node["mooring"="yes"](${bbox});
-        way["mooring"="yes"](${bbox});
-        node["seamark:type"="pontoon"](${bbox});
-        node["harbour"](${bbox});
-        way["harbour"](${bbox});
-        node["seamark_type"="harbour"](${bbox});`
-    }
-    
-    if (types.includes('gas_stations')) {
-      query += `
-        node["amenity"="fuel"](${bbox});
-        way["amenity"="fuel"](${bbox});
-        node["seamark:type"="fuel"](${bbox});
-        node["fuel"](${bbox});
-        way["fuel"](${bbox});
-        node["seamark:fuel:type"](${bbox});`
-    }
-    
-    if (types.includes('slipways')) {
-      query += `
-        node["leisure"="slipway"](${bbox});
-        way["leisure"="slipway"](${bbox});
-        node["waterway"="slipway"](${bbox});
-        way["waterway"="slipway"](${bbox});
-        node["seamark:type"="slipway"](${bbox});
-        node["slipway"](${bbox});
-        way["slipway"](${bbox});
-        node["boat:launching"](${bbox});
-        way["boat:launching"](${bbox});`
-    }
-    
-    query += `); out tags center qt;`
-    return query
-  }
-
-  // Fetch data from Overpass API
-  const fetchOverpass = async (query: string, type: string) => {
+  // Map layer data from Overpass; null when it could not be fetched, so a layer just stays empty.
+  // With a cache class and key the data comes from the persistent cache when it has a copy,
+  // and onRevalidated gets the refreshed data when that copy was stale.
+  const fetchOverpass = async (
+    query: string,
+    type: string,
+    cache?: { dataClass: OverpassDataClass, key: string, onRevalidated?: (data: any) => void }
+  ) => {
     try {
-      console.log(`🌐 Fetching ${type} data...`)
-      console.log(`📝 Query:`, query)
-      
-      // Try main Overpass API first
-      let response = await fetch('https://overpass-api.de/api/interpreter', {
-        method: 'POST',
-        body: query,
-        headers: { 'Content-Type': 'text/plain;charset=UTF-8' }
-      })
-      
-      console.log(`📡 Response status:`, response.status, response.statusText)
-      
-      // If main API fails, try alternative endpoint
-      if (!response.ok) {
-        console.log(`⚠️ Main API failed, trying alternative endpoint...`)
-        response = await fetch('https://overpass.kumi.systems/api/interpreter', {
-          method: 'POST',
-          body: query,
-          headers: { 'Content-Type': 'text/plain;charset=UTF-8' }
-        })
-        console.log(`📡 Alternative API response status:`, response.status, response.statusText)
-      }
-      
-      if (!response.ok) {
-        console.log(`❌ ${type} fetch failed with status: ${response.status}`)
-        const errorText = await response.text()
-        console.log(`❌ Error response:`, errorText)
-        return null
-      }
-      
-      const data = await response.json()
-      console.log(`✅ ${type} data received:`, data.elements?.length || 0, 'elements')
-      
-      if (data.elements && data.elements.length > 0) {
-        console.log(`🔍 First element:`, data.elements[0])
-        
-        // Log bridge-specific information for debugging
-        if (type === 'POIs') {
-          const bridges = data.elements.filter((el: any) => el.tags?.bridge)
-          console.log(`🌉 Found ${bridges.length} bridges in POI data`)
-          if (bridges.length > 0) {
-            console.log(`🌉 Sample bridge:`, bridges[0])
-          }
-        }
-      }
-      
-      return data
+      return cache
+        ? await cachedOverpassQuery(cache.dataClass, cache.key, query, { label: type, onRevalidated: cache.onRevalidated })
+        : await overpass.query(query, { label: type })
     } catch (error) {
-      console.error(`❌ Error fetching ${type} data:`, error)
+      console.error(`❌ Error fetching ${type} data:`, isOverpassError(error) ? `${error.kind}: ${error.message}` : error)
       return null
     }
   }
 
-  // Load waterways data
-  const loadWaterwaysData = async (bounds: L.LatLngBounds) => {
-    console.log('🌊 Loading waterways data for bounds:', bounds)
-    try {
-      // Try the main query first
-      let data = await fetchOverpass(qWaterways(bounds), 'waterways')
-      
-      // If no data, try a focused fallback query (canals and rivers only)
-      if (!data || !data.elements || data.elements.length === 0) {
-        console.log('⚠️ Main query failed, trying focused fallback query...')
-        const fallbackQuery = `[out:json][timeout:60];
-          way["waterway"~"^(canal|river)$"](${bboxString(bounds)});
-          out tags geom qt;`
-        data = await fetchOverpass(fallbackQuery, 'waterways (focused fallback)')
-      }
-      
-      if (data && data.elements && data.elements.length > 0) {
-        console.log('✅ Waterways data loaded successfully:', data.elements.length, 'elements')
-        console.log('🔍 Sample waterway:', data.elements[0])
-        setWaterwaysData(data)
-        return data
-      } else {
-        console.log('⚠️ Waterways data empty or invalid:', data)
-        return null
-      }
-    } catch (error) {
-      console.error('❌ Error loading waterways data:', error)
-      return null
+  // Locks and bridges change more often than harbours, fuel and slipways; a combined query
+  // is kept as long as its shortest-lived part
+  const combinedDataClass = (types: PoiLayer[]): OverpassDataClass =>
+    types.includes('locks') || types.includes('bridges') ? 'structures' : 'facilities'
+
+  // Hand the merged tiles to the map layers. Bridges only show from zoom 12, where there
+  // is room for them.
+  const publishMapData = () => {
+    const layer = (name: MapDataLayer) => {
+      const elements = mapData.elements(name)
+      return elements.length > 0 ? { elements } : null
     }
+    setWaterwaysData(layer('waterways'))
+    setLocksData(layer('locks'))
+    setBridgesData(mapRef.current && mapRef.current.getZoom() >= 12 ? layer('bridges') : null)
+    setDocksData(layer('harbors'))
+    setGasStationsData(layer('gas_stations'))
+    setSlipwaysData(layer('slipways'))
   }
 
-  // Load POIs data (locks, bridges) - separate from harbors/marinas
-  const loadPOIsData = async (bounds: L.LatLngBounds) => {
-    console.log('🏗️ Loading POIs data for bounds:', bounds)
-    try {
-      const data = await fetchOverpass(qPOIs(bounds), 'POIs')
-      if (data && data.elements && data.elements.length > 0) {
-        console.log('✅ POIs data loaded successfully:', data.elements.length, 'elements')
-        console.log('🔍 Sample POI:', data.elements[0])
-        
-        // Filter data by type
-        const locks = data.elements.filter((el: any) => 
-          (el.type === 'node' && el.tags?.waterway === 'lock_gate') ||
-          (el.type === 'way' && el.tags?.waterway === 'lock_gate') ||
-          (el.type === 'node' && el.tags?.lock === 'yes') ||
-          (el.type === 'way' && el.tags?.lock === 'yes') ||
-          (el.type === 'node' && el.tags?.waterway === 'lock') ||
-          (el.type === 'way' && el.tags?.waterway === 'lock')
-        )
-        
-        const bridges = data.elements.filter((el: any) => 
-          el.type === 'way' && el.tags?.bridge
-        )
-        
-        console.log(`📊 Filtered data - Locks: ${locks.length}, Bridges: ${bridges.length}`)
-        
-        setLocksData({ elements: locks })
-        
-        // Only load bridges at zoom level 12 or higher
-        if (mapRef.current && mapRef.current.getZoom() >= 12) {
-          setBridgesData({ elements: bridges })
-        } else {
-          setBridgesData(null)
-        }
-        
-        return data
-      } else {
-        console.log('⚠️ POIs data empty or invalid:', data)
-        return null
+  // Load the waterways of one data tile; false when it could not be fetched, so it is
+  // tried again on the next move
+  const loadWaterwaysTile = async (tile: DataTile) => {
+    const bounds = tileBounds(tile)
+    // Applied to the data as fetched, and again when a stale cached copy has been refreshed
+    const apply = (data: any) => {
+      mapData.put('waterways', tile.key, data.elements || [])
+      publishMapData()
+    }
+    let data = await fetchOverpass(qWaterways(bounds), `waterways ${tile.key}`, { dataClass: 'waterways', key: `waterways:${tile.key}`, onRevalidated: apply })
+
+    // Without a connection the data comes from a downloaded region pack
+    if (!data && settings.offlineMode) {
+      const packed = await readPackTile(tile.key)
+      if (packed) {
+        console.log(`📦 Waterways tile ${tile.key} from an offline pack`)
+        data = { elements: packed.waterways }
       }
-    } catch (error) {
-      console.error('❌ Error loading POIs data:', error)
-      return null
     }
-  }
 
-  // Load harbors and marinas data separately
-  const loadHarborsMarinasData = async (bounds: L.LatLngBounds) => {
-    console.log('⚓ Loading harbors/marinas data for bounds:', bounds)
-    try {
-      const data = await fetchOverpass(qHarborsMarinas(bounds), 'Harbors/Marinas')
-      if (data && data.elements && data.elements.length > 0) {
-        console.log('✅ Harbors/Marinas data loaded successfully:', data.elements.length, 'elements')
-        console.log('🔍 Sample Harbor/Marina:', data.elements[0])
-        
-        setDocksData({ elements: data.elements })
-        return data
-      } else {
-        console.log('⚠️ Harbors/Marinas data empty or invalid:', data)
-        return null
-      }
-    } catch (error) {
-      console.error('❌ Error loading harbors/marinas data:', error)
-      return null
+    // If the main query failed, try a focused fallback query (canals and rivers only)
+    if (!data) {
+      console.log('⚠️ Main query failed, trying focused fallback query...')
+      data = await fetchOverpass(qWaterwaysFallback(bounds), `waterways ${tile.key} (focused fallback)`, { dataClass: 'waterways', key: `waterways-fallback:${tile.key}`, onRevalidated: apply })
     }
+    if (!data) return false
+
+    console.log(`✅ Waterways tile ${tile.key}:`, data.elements?.length || 0, 'elements')
+    apply(data)
+    return true
   }
 
-  // Load gas stations data
-  const loadGasStationsData = async (bounds: L.LatLngBounds) => {
-    console.log('⛽ Loading gas stations data for bounds:', bounds)
-    try {
-      const data = await fetchOverpass(qGasStations(bounds), 'Gas Stations')
-      if (data && data.elements && data.elements.length > 0) {
-        console.log('✅ Gas Stations data loaded successfully:', data.elements.length, 'elements')
-        console.log('🔍 Sample Gas Station:', data.elements[0])
-        
-        setGasStationsData({ elements: data.elements })
-        return data
-      } else {
-        console.log('⚠️ Gas Stations data empty or invalid:', data)
-        return null
+  // Load several POI layers of one data tile with a combined query
+  const loadPOITile = async (tile: DataTile, types: PoiLayer[]) => {
+    const apply = (data: any) => {
+      for (const type of types) mapData.put(type, tile.key, (data.elements || []).filter(POI_LAYER_FILTERS[type]))
+      publishMapData()
+    }
+    let data = await fetchOverpass(
+      qCombinedPOIs(tileBounds(tile), types),
+      `POIs ${tile.key} (${types.join(', ')})`,
+      { dataClass: combinedDataClass(types), key: `pois:${[...types].sort().join('+')}:${tile.key}`, onRevalidated: apply }
+    )
+    if (!data && settings.offlineMode) {
+      const packed = await readPackTile(tile.key)
+      if (packed) {
+        console.log(`📦 POI tile ${tile.key} from an offline pack`)
+        data = { elements: [...new Set(types.flatMap(type => packed.pois[type]))] }
       }
-    } catch (error) {
-      console.error('❌ Error loading gas stations data:', error)
-      return null
     }
+    if (!data) return false
+
+    console.log(`✅ POI tile ${tile.key}:`, data.elements?.length || 0, 'elements')
+    apply(data)
+    return true
   }
 
-  // Load slipways data
-  const loadSlipwaysData = async (bounds: L.LatLngBounds) => {
-    console.log('🚤 Loading slipways data for bounds:', bounds)
-    try {
-      const data = await fetchOverpass(qSlipways(bounds), 'Slipways')
-      if (data && data.elements && data.elements.length > 0) {
-        console.log('✅ Slipways data loaded successfully:', data.elements.length, 'elements')
-        console.log('🔍 Sample Slipway:', data.elements[0])
-        
-        setSlipwaysData({ elements: data.elements })
-        return data
-      } else {
-        console.log('⚠️ Slipways data empty or invalid:', data)
-        return null
-      }
-    } catch (error) {
-      console.error('❌ Error loading slipways data:', error)
-      return null
+  // Load the tiles in view that are still missing, for the waterways and each POI layer
+  // that is switched on. Tiles loaded before are kept, whatever the zoom level.
+  const loadVisibleMapData = async (layers: PoiLayer[]) => {
+    const map = mapRef.current
+    if (!map || map.getZoom() < 10) return
+
+    const view = map.getBounds()
+    const tiles = tilesForBounds({ s: view.getSouth(), w: view.getWest(), n: view.getNorth(), e: view.getEast() })
+    mapData.touch(tiles.map(tile => tile.key))
+    publishMapData()
+
+    const loads: Promise<boolean>[] = []
+    const claim = (layer: MapDataLayer, tile: DataTile) => {
+      const id = `${layer}|${tile.key}`
+      if (mapData.has(layer, tile.key) || loadingTilesRef.current.has(id)) return false
+      loadingTilesRef.current.add(id)
+      return true
+    }
+    const release = (layers: MapDataLayer[], tile: DataTile) => () => {
+      for (const layer of layers) loadingTilesRef.current.delete(`${layer}|${tile.key}`)
     }
-  }
 
-  // Load multiple POI types efficiently with combined query
-  const loadCombinedPOIsData = async (bounds: L.LatLngBounds, types: string[]) => {
-    console.log('🏗️ Loading combined POIs data for types:', types, 'bounds:', bounds)
-    try {
-      const data = await fetchOverpass(qCombinedPOIs(bounds, types), `Combined POIs (${types.join(', ')})`)
-      if (data && data.elements && data.elements.length > 0) {
-        console.log('✅ Combined POIs data loaded successfully:', data.elements.length, 'elements')
-        
-        // Filter and set data for each type
-        if (types.includes('locks')) {
-          const locks = data.elements.filter((el: any) => 
-            (el.type === 'node' && el.tags?.waterway === 'lock_gate') ||
-            (el.type === 'way' && el.tags?.waterway === 'lock_gate') ||
-            (el.type === 'node' && el.tags?.lock === 'yes') ||
-            (el.type === 'way' && el.tags?.lock === 'yes') ||
-            (el.type === 'node' && el.tags?.waterway === 'lock') ||
-            (el.type === 'way' && el.tags?.waterway === 'lock')
-          )
-          setLocksData({ elements: locks })
-          console.log('🔒 Locks filtered:', locks.length)
-        }
-        
-        if (types.includes('bridges')) {
-          const bridges = data.elements.filter((el: any) => 
-            el.type === 'way' && el.tags?.bridge
-          )
-          if (mapRef.current && mapRef.current.getZoom() >= 12) {
-            setBridgesData({ elements: bridges })
-          } else {
-            setBridgesData(null)
-          }
-          console.log('🌉 Bridges filtered:', bridges.length)
-        }
-        
-        if (types.includes('harbors')) {
-          const harbors = data.elements.filter((el: any) => 
-            el.tags?.leisure === 'marina' ||
-            el.tags?.['seamark:type'] === 'harbour' ||
-            el.tags?.mooring === 'yes' ||
-            el.tags?.harbour ||
-            el.tags?.['seamark:type'] === 'pontoon'
-          )
-          setDocksData({ elements: harbors })
-          console.log('⚓ Harbors filtered:', harbors.length)
-        }
-        
-        if (types.includes('gas_stations')) {
-          const gasStations = data.elements.filter((el: any) => 
-            el.tags?.amenity === 'fuel' ||
-            el.tags?.['seamark:type'] === 'fuel' ||
-            el.tags?.fuel ||
-            el.tags?.['seamark:fuel:type']
-          )
-          setGasStationsData({ elements: gasStations })
-          console.log('⛽ Gas Stations filtered:', gasStations.length)
-        }
-        
-        if (types.includes('slipways')) {
-          const slipways = data.elements.filter((el: any) => 
-            el.tags?.leisure === 'slipway' ||
-            el.tags?.waterway === 'slipway' ||
-            el.tags?.['seamark:type'] === 'slipway' ||
-            el.tags?.slipway ||
-            el.tags?.['boat:launching']
-          )
-          setSlipwaysData({ elements: slipways })
-          console.log('🚤 Slipways filtered:', slipways.length)
-        }
-        
-        return data
-      } else {
-        console.log('⚠️ Combined POIs data empty or invalid:', data)
-        return null
+    for (const tile of tiles) {
+      if (claim('waterways', tile)) {
+        loads.push(loadWaterwaysTile(tile).finally(release(['waterways'], tile)))
+      }
+      const missing = layers.filter(layer => claim(layer, tile))
+      if (missing.length > 0) {
+        loads.push(loadPOITile(tile, missing).finally(release(missing, tile)))
       }
-    } catch (error) {
-      console.error('❌ Error loading combined POIs data:', error)
-      return null
     }
+    if (loads.length === 0) return
+
+    console.log(`🗺️ Loading ${loads.length} missing data tiles`)
+    const results = await Promise.all(loads)
+    console.log(`✅ Data tiles loaded: ${results.filter(Boolean).length}/${results.length},`, (mapData.bytes() / (1024 * 1024)).toFixed(1), 'MB in', mapData.tileCount(), 'tiles')
   }
 
   // Handle map clicks for navigation
@@ -826,6 +579,26 @@ const NavigationPage: React.FC = () => {
       // START NAVIGATION IMMEDIATELY with the snapped coordinates
       startNavigationWithCoordinates(newEndPoint)
       
+    } else if (mapClickMode === 'via') {
+      // Add an intermediate stop before the destination
+      const snappedStop = findNearestWaterwayPoint(lat, lng)
+      const newViaPoints = [...viaPoints, snappedStop ? snappedStop.point : [lat, lng] as [number, number]]
+      console.log('📌 Stop', newViaPoints.length, 'added at', newViaPoints[newViaPoints.length - 1])
+      
+      if (endPoint) {
+        // Route already planned - recalculate through the new stop
+        setMapClickMode(null)
+        updateStops(startPoint, newViaPoints, endPoint)
+      } else {
+        setViaPoints(newViaPoints)
+        setMapClickMode('end')
+        console.log('🎯 Now click to set end point (or add another stop)')
+      }
+      
+    } else if (mapClickMode === 'avoid') {
+      // Add a corner to the avoid area being drawn
+      setDraftAvoidArea(prev => [...prev, [lat, lng]])
+      
     } else if (mapClickMode === 'report' && reportMode) {
       // Handle report submission
       const newReport = {
@@ -875,34 +648,124 @@ const NavigationPage: React.FC = () => {
     }
   }
 
-  // Start navigation with actual coordinates (fixes async state issue)
-  const startNavigationWithCoordinates = async (endCoord: [number, number]) => {
-    if (!startPoint) {
+  // Overpass fetcher for the router. Offline, corridors inside downloaded region packs are
+  // answered from the pack.
+  const fetchCorridor = (signal?: AbortSignal) => async (query: string, key: string) => {
+    try {
+      return await overpass.query(query, { key, signal })
+    } catch (error) {
+      const match = settings.offlineMode && !signal?.aborted && /^w:corr:(.+)$/.exec(key)
+      if (!match) throw error
+      const [s, w, n, e] = match[1].split(',').map(Number)
+      const elements = await readPackRouting({ s, w, n, e })
+      if (!elements) throw error
+      console.log('📦 Corridor from offline packs:', elements.length, 'elements')
+      return { elements }
+    }
+  }
+
+  // POIs along the route, with ETAs from the route's time profile
+  const loadRoutePOIs = async (route: any, start: [number, number], end: [number, number], signal?: AbortSignal) => {
+    try {
+      const routePOIsData = await extractRoutePOIsWithCorridor(
+        route.coordinates,
+        start,
+        end,
+        // Cached apart from the map's own queries of the same area
+        (query: string, key: string) => cachedOverpassQuery('structures', `route-${key}`, query, { signal }),
+        settings.boatSpeed,
+        route.times
+      )
+      if (signal?.aborted) return
+      setRoutePOIs(routePOIsData.pois)
+      console.log('✅ Extracted', routePOIsData.pois.length, 'POIs along route')
+    } catch (error) {
+      console.warn('⚠️ Enhanced POI extraction failed, using fallback:', error)
+      // Fallback to basic POI extraction
+      const routePOIsData = extractRoutePOIs(
+        route.coordinates,
+        locksData,
+        bridgesData,
+        docksData,
+        start,
+        end,
+        gasStationsData
+      )
+      setRoutePOIs(routePOIsData.pois)
+    }
+  }
+
+  // Make one of the alternative routes the active route
+  const chooseAlternative = (index: number) => {
+    if (!currentRoute?.alternatives?.[index]) return
+    const route = selectAlternative(currentRoute, index)
+    console.log('🔀 Switched to alternative route:', Math.round(route.totalDistance), 'm,', route.totalTime, 'min')
+    setCurrentRoute(route)
+    setRouteCoordinates(route.coordinates)
+    setCurrentStep(0)
+    if (startPoint && endPoint) loadRoutePOIs(route, startPoint, endPoint)
+  }
+
+  // Start navigation with actual coordinates (fixes async state issue). Stops and start
+  // can be passed explicitly when they were changed in the same event. A failed reroute
+  // keeps the current route instead of ending navigation.
+  const startNavigationWithCoordinates = async (
+    endCoord: [number, number],
+    via: [number, number][] = viaPoints,
+    start: [number, number] | null = startPoint,
+    avoid: AvoidSet = avoidSet,
+    rerouting: boolean = false
+  ) => {
+    if (!start) {
       console.log('❌ Missing start point')
       return
     }
     
-    console.log('🚀 Starting navigation from', startPoint, 'to', endCoord)
+    console.log('🚀 Starting navigation from', start, 'via', via.length, 'stops to', endCoord)
+    
+    // Cancel any route search that is still running
+    routeAbortRef.current?.abort()
+    const controller = new AbortController()
+    routeAbortRef.current = controller
     
     // Set routing status with proper status message
     setIsNavigating(true)
+    setRouteProgress({ phase: 'fetching', fraction: 0 })
     
     try {
-      console.log('🔍 Calling findWaterwayRoute with coordinates:', { startPoint, endCoord, waterwaysData })
+      console.log('🔍 Calling findMultiStopRoute with coordinates:', { start, via, endCoord, waterwaysData })
       
-      // Create fetchOverpass function for corridor prefetching
-      const fetchOverpassForRouting = async (query: string, key: string) => {
-        return await fetchOverpass(query, 'routing')
-      }
-      
-      const route = await findWaterwayRoute(
-        startPoint, 
-        endCoord, 
+      const route = await findMultiStopRoute(
+        [start, ...via, endCoord],
         waterwaysData, 
         settings.boatSpeed,
-        fetchOverpassForRouting
+        fetchCorridor(controller.signal),
+        {
+          runner: computeRouteInWorker,
+          isRegionCached: isRegionCachedInWorker,
+          signal: controller.signal,
+          onProgress: setRouteProgress,
+          params: {
+            profile: {
+              height: settings.boatHeight,
+              width: settings.boatWidth,
+              length: settings.boatLength,
+              draught: settings.boatDraught
+            },
+            costModel: createCostModel(settings.boatSpeed, settings.bridgeWaitMinutes, settings.lockWaitMinutes),
+            departure: departureTime ? new Date(departureTime).getTime() : Date.now(),
+            // Alternatives are only offered for single-leg routes, and not when rerouting mid-trip
+            alternatives: via.length === 0 && !rerouting ? 3 : 0,
+            avoid
+          }
+        }
       )
       
+      if (!route && rerouting) {
+        console.log('❌ No route from the current position - keeping the current route')
+        return
+      }
+      
       if (!route) {
         console.log('❌ No waterway route found - navigation cannot start')
         alert('❌ No waterway route found! Please try different start and end points.')
@@ -916,58 +779,247 @@ const NavigationPage: React.FC = () => {
       setCurrentRoute(route)
       setRouteCoordinates(route.coordinates)
       setCurrentStep(0)
+      setRouteProgress(null)
       
       // Calculate POIs along the route using enhanced corridor-based extraction
-      try {
-        const routePOIsData = await extractRoutePOIsWithCorridor(
-          route.coordinates,
-          startPoint,
-          endCoord,
-          fetchOverpassForRouting,
-          settings.boatSpeed
-        )
-        setRoutePOIs(routePOIsData.pois)
-        console.log('✅ Extracted', routePOIsData.pois.length, 'POIs along route')
-      } catch (error) {
-        console.warn('⚠️ Enhanced POI extraction failed, using fallback:', error)
-        // Fallback to basic POI extraction
-        const routePOIsData = extractRoutePOIs(
-          route.coordinates,
-          locksData,
-          bridgesData,
-          docksData,
-          startPoint,
-          endCoord,
-          gasStationsData
-        )
-        setRoutePOIs(routePOIsData.pois)
-      }
+      await loadRoutePOIs(route, start, endCoord, controller.signal)
+      if (controller.signal.aborted) return
       
       // Show bottom navigation panel when route is complete
       setShowBottomNavigationPanel(true)
       
       console.log('🎉 Navigation started with waterway route!')
-    } catch (error) {
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        // Superseded by a new route or stopped - the caller already reset the state
+        console.log('🛑 Route calculation cancelled')
+        return
+      }
       console.error('❌ Error finding waterway route:', error)
+      if (rerouting) {
+        // A failed reroute must not end the trip; the current route stays up
+        console.log('❌ Rerouting failed - keeping the current route')
+        return
+      }
+      if (error?.name === 'RouteBlockedError' || error?.name === 'UnconnectedNetworksError') {
+        alert(`❌ ${error.message}`)
+        setIsNavigating(false)
+        return
+      }
       alert('❌ Error finding waterway route! Please try again.')
       setIsNavigating(false)
+    } finally {
+      if (routeAbortRef.current === controller) {
+        routeAbortRef.current = null
+        setRouteProgress(null)
+      }
+    }
+  }
+
+  // Apply an edited stop list and recalculate the route when both ends are known
+  const updateStops = (start: [number, number] | null, via: [number, number][], end: [number, number] | null) => {
+    setStartPoint(start)
+    setViaPoints(via)
+    setEndPoint(end)
+    if (start && end) {
+      startNavigationWithCoordinates(end, via, start)
+    }
+  }
+
+  const moveViaPoint = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= viaPoints.length) return
+    const reordered = [...viaPoints]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    updateStops(startPoint, reordered, endPoint)
+  }
+
+  const removeViaPoint = (index: number) => {
+    updateStops(startPoint, viaPoints.filter((_, i) => i !== index), endPoint)
+  }
+
+  // Apply an edited avoid set and recalculate the active route
+  const updateAvoidSet = (avoid: AvoidSet) => {
+    setAvoidSet(avoid)
+    if (startPoint && endPoint) {
+      startNavigationWithCoordinates(endPoint, viaPoints, startPoint, avoid)
     }
   }
 
+  const finishAvoidArea = () => {
+    if (draftAvoidArea.length >= 3) {
+      console.log('🚫 Avoid area added with', draftAvoidArea.length, 'corners')
+      updateAvoidSet({ ...avoidSet, areas: [...avoidSet.areas, draftAvoidArea] })
+    }
+    setDraftAvoidArea([])
+    setMapClickMode(null)
+  }
+
+  const cancelAvoidArea = () => {
+    setDraftAvoidArea([])
+    setMapClickMode(null)
+  }
+
+  const removeAvoidArea = (index: number) => {
+    updateAvoidSet({ ...avoidSet, areas: avoidSet.areas.filter((_, i) => i !== index) })
+  }
+
+  const avoidObject = (object: AvoidObject) => {
+    if (isObjectAvoided(avoidSet, object.osmType, object.osmId)) return
+    console.log('🚫 Avoiding', object.kind, object.name || object.osmId)
+    updateAvoidSet({ ...avoidSet, objects: [...avoidSet.objects, object] })
+  }
+
+  const removeAvoidObject = (index: number) => {
+    updateAvoidSet({ ...avoidSet, objects: avoidSet.objects.filter((_, i) => i !== index) })
+  }
+
+  // Save the track sailed so far to the logbook
+  const finishTrip = () => {
+    const trip = tripRecorderRef.current?.finish()
+    tripRecorderRef.current = null
+    if (trip && !saveTrip(trip)) alert('❌ Could not save this trip to the logbook: storage is full.')
+  }
+
   // Stop navigation
   const stopNavigation = () => {
+    finishTrip()
+    routeAbortRef.current?.abort()
+    routeAbortRef.current = null
+    setRouteProgress(null)
     setIsNavigating(false)
     setCurrentRoute(null)
     setRouteCoordinates([])
     setCurrentStep(0)
     setStartPoint(null)
     setEndPoint(null)
+    setViaPoints([])
+    setDraftAvoidArea([])
     setMapClickMode(null)
     setShowBottomNavigationPanel(false)
     setRoutePOIs([])
+    setBoatPosition(null)
+    offRouteDetectorRef.current.reset()
     console.log('🛑 Navigation stopped')
   }
 
+  // Plan again from where the boat is, through the stops it has not reached yet
+  const rerouteFromPosition = (progress: NavigationProgress) => {
+    if (!endPoint || !currentRoute) return
+    offRouteDetectorRef.current.rerouted(progress.position.timestamp)
+    setOffRouteState('on-route')
+    
+    const here: [number, number] = [progress.position.lat, progress.position.lng]
+    let legEnd = 0
+    const legsDone = (currentRoute.legs || []).filter((leg: any) => (legEnd += leg.distance) <= progress.travelled).length
+    const remainingVia = viaPoints.slice(legsDone)
+    console.log('🔁 Rerouting from', here, 'via', remainingVia.length, 'stops')
+    
+    setStartPoint(here)
+    setViaPoints(remainingVia)
+    startNavigationWithCoordinates(endPoint, remainingVia, here, avoidSet, true)
+  }
+
+  // Called for every position; reroutes once the boat has been off the route long enough.
+  // Kept in a ref so the tracking effect always sees the current settings and stops.
+  offRouteHandlerRef.current = (progress: NavigationProgress) => {
+    const detector = offRouteDetectorRef.current
+    const state = detector.update(progress, settings.offRouteMeters)
+    setOffRouteState(state)
+    if (state !== 'off-route' || !settings.autoReroute) return
+    if (routeAbortRef.current || !detector.mayReroute(progress.position.timestamp)) return // Already rerouting or just did
+    console.log('🧭 Off route by', Math.round(progress.offRouteMeters), 'm')
+    rerouteFromPosition(progress)
+  }
+
+  // Read by the tracking effect on every position, so settings changes apply mid-trip
+  voiceOptionsRef.current = {
+    enabled: settings.voiceGuidance,
+    language: settings.language,
+    units: settings.units,
+    hazards: settings.hazardReports
+  }
+
+  // Follow the boat while a route is active: project each position onto the route for the
+  // remaining distance and ETA, and advance the current step. In simulation a virtual boat
+  // sails the route through the same pipeline, so guidance and rerouting can be tried on land.
+  useEffect(() => {
+    if (!isNavigating || !currentRoute) return
+    
+    const tracker = createRouteTracker(currentRoute)
+    // A reroute starts the simulated clock where the previous route left it
+    const simulator = simulation
+      ? createSimulationProvider(currentRoute.coordinates, settings.boatSpeed, simulation.speedup, boatPosition?.timestamp)
+      : null
+    if (simulator && simulation) {
+      simulator.setPaused(simulation.paused)
+      simulator.setDrift(simulation.drift)
+    }
+    simulationRef.current = simulator
+    const provider = simulator ?? createGeolocationProvider()
+    // Browsers without speech synthesis get the announcements in the console only
+    const guidance = createVoiceGuidance(currentRoute, createWebSpeechBackend() ?? createFakeSpeechBackend())
+    guidance.setPois(routePOIs)
+    guidance.setHazards(reports)
+    voiceGuidanceRef.current = guidance
+    tripRecorderRef.current ??= createTrackRecorder(settings.trackIntervalSeconds)
+    const recorder = tripRecorderRef.current
+    recorder.addLandmarks([
+      ...(currentRoute.passages || []).map((passage: any): TripLandmark => ({ kind: passage.kind, name: passage.name, at: passage.at })),
+      ...poiLandmarks(routePOIs)
+    ])
+    let warned = false
+    
+    provider.start((position) => {
+      const progress = tracker.update(position)
+      recorder.add(position, simulator !== null)
+      setBoatPosition(position)
+      setNavigationProgress(progress)
+      setCurrentStep(progress.step)
+      offRouteHandlerRef.current(progress)
+      if (voiceOptionsRef.current) guidance.update(progress, voiceOptionsRef.current)
+      
+      // Keep the boat in view without fighting the user over every fix
+      const map = mapRef.current
+      if (map && !map.getBounds().pad(-0.2).contains([position.lat, position.lng])) {
+        map.panTo([position.lat, position.lng])
+      }
+    }, (message) => {
+      if (!warned) alert(`⚠️ ${message}`)
+      warned = true
+    })
+    
+    return () => {
+      provider.stop()
+      guidance.stop()
+      voiceGuidanceRef.current = null
+      simulationRef.current = null
+      setNavigationProgress(null)
+      setOffRouteState('on-route')
+    }
+  }, [isNavigating, currentRoute, simulation !== null])
+
+  // Speed, pause and drift apply to the running simulation without restarting it
+  useEffect(() => {
+    if (!simulation || !simulationRef.current) return
+    simulationRef.current.setSpeedup(simulation.speedup)
+    simulationRef.current.setPaused(simulation.paused)
+    simulationRef.current.setDrift(simulation.drift)
+  }, [simulation])
+
+  // POIs load after the route, and reports can arrive during the trip
+  useEffect(() => {
+    voiceGuidanceRef.current?.setPois(routePOIs)
+    tripRecorderRef.current?.addLandmarks(poiLandmarks(routePOIs))
+  }, [routePOIs])
+
+  // Leaving the page ends the trip too
+  useEffect(() => finishTrip, [])
+
+  useEffect(() => {
+    voiceGuidanceRef.current?.setHazards(reports)
+  }, [reports])
+
   // Event listeners for buttons
   useEffect(() => {
     const handleToggleShowMapPanel = () => {
@@ -1021,166 +1073,58 @@ const NavigationPage: React.FC = () => {
     }
   }, [])
 
-  // Load POI data on-demand when toggles are enabled
+  // POI layers switched on, which are the ones loaded per tile
+  const poiLayers = (): PoiLayer[] => {
+    const layers: PoiLayer[] = []
+    if (showLocks) layers.push('locks')
+    if (showBridges) layers.push('bridges')
+    if (showDocks) layers.push('harbors')
+    if (showGasStations) layers.push('gas_stations')
+    if (showSlipways) layers.push('slipways')
+    return layers
+  }
+
+  // Load the missing tiles of a layer when it is switched on
   useEffect(() => {
-    const loadPOIDataOnDemand = async () => {
-      if (!mapRef.current) return
-      
-      const bounds = mapRef.current.getBounds()
-      const zoom = mapRef.current.getZoom()
-      
-      if (zoom < 10) return
-      
-      try {
-        // Determine which POI types need to be loaded
-        const typesToLoad: string[] = []
-        const needsCombinedLoad = []
-        
-        if ((showLocks || showBridges) && !locksData && !bridgesData) {
-          if (showLocks) typesToLoad.push('locks')
-          if (showBridges) typesToLoad.push('bridges')
-          needsCombinedLoad.push('pois')
-        }
-        
-        if (showDocks && !docksData) {
-          typesToLoad.push('harbors')
-          needsCombinedLoad.push('harbors')
-        }
-        
-        if (showGasStations && !gasStationsData) {
-          typesToLoad.push('gas_stations')
-          needsCombinedLoad.push('gas_stations')
-        }
-        
-        if (showSlipways && !slipwaysData) {
-          typesToLoad.push('slipways')
-          needsCombinedLoad.push('slipways')
-        }
-        
-        // Use combined query if multiple types need loading
-        if (typesToLoad.length > 1) {
-          console.log('🏗️ Loading combined POIs data on-demand for types:', typesToLoad)
-          await loadCombinedPOIsData(bounds, typesToLoad)
-        } else if (typesToLoad.length === 1) {
-          // Use individual queries for single types
-          if (typesToLoad.includes('locks') || typesToLoad.includes('bridges')) {
-            console.log('🏗️ Loading POIs data on-demand...')
-            await loadPOIsData(bounds)
-          }
-          if (typesToLoad.includes('harbors')) {
-            console.log('⚓ Loading harbors/marinas data on-demand...')
-            await loadHarborsMarinasData(bounds)
-          }
-          if (typesToLoad.includes('gas_stations')) {
-            console.log('⛽ Loading gas stations data on-demand...')
-            await loadGasStationsData(bounds)
-          }
-          if (typesToLoad.includes('slipways')) {
-            console.log('🚤 Loading slipways data on-demand...')
-            await loadSlipwaysData(bounds)
-          }
-        }
-      } catch (error) {
-        console.error('❌ Error loading POI data on-demand:', error)
-      }
-    }
-    
-    loadPOIDataOnDemand()
-  }, [showLocks, showBridges, showDocks, showGasStations, showSlipways, locksData, bridgesData, docksData, gasStationsData, slipwaysData])
+    loadVisibleMapData(poiLayers()).catch(error => console.error('❌ Error loading POI data on-demand:', error))
+  }, [showLocks, showBridges, showDocks, showGasStations, showSlipways])
 
   // Initial data load when component mounts - only load for current viewport
   useEffect(() => {
     const timer = setTimeout(async () => {
       console.log('🚀 Initial data load triggered for current viewport')
       
-      // Set all layers to visible initially
+      // Set all layers to visible initially; their tiles load once the toggles are on
       setShowWaterways(true)
       setShowLocks(true)
       setShowBridges(true)
       setShowDocks(true)
       
-      // Only load data if map is ready and we have a reasonable zoom level
-      if (mapRef.current) {
-        const bounds = mapRef.current.getBounds()
-        const zoom = mapRef.current.getZoom()
-        const viewportKey = createViewportKey(bounds, zoom)
-        
-        // Check if we've already loaded this viewport
-        if (loadedViewports.has(viewportKey)) {
-          console.log('📍 Viewport already loaded, skipping initial load')
-          setIsLoadingMap(false)
-          return
-        }
-        
-        console.log('📍 Loading initial data for current viewport:', bounds, 'zoom:', zoom)
-        
-        try {
-          // Only load if zoom level is appropriate (not too zoomed out)
-          if (zoom >= 10) {
-            // Load waterways data first (always needed for navigation)
-            console.log('🌊 Loading waterways data...')
-            const waterwaysResult = await loadWaterwaysData(bounds)
-            console.log('✅ Waterways data loaded:', !!waterwaysResult)
-            
-            // Load POI data efficiently
-            const enabledTypes: string[] = []
-            if (showLocks || showBridges) {
-              if (showLocks) enabledTypes.push('locks')
-              if (showBridges) enabledTypes.push('bridges')
-            }
-            if (showDocks) enabledTypes.push('harbors')
-            if (showGasStations) enabledTypes.push('gas_stations')
-            if (showSlipways) enabledTypes.push('slipways')
-            
-            if (enabledTypes.length > 0) {
-              if (enabledTypes.length > 1) {
-                console.log('🏗️ Loading combined POIs data for types:', enabledTypes)
-                const combinedResult = await loadCombinedPOIsData(bounds, enabledTypes)
-                console.log('✅ Combined POIs data loaded:', !!combinedResult)
-              } else {
-                // Use individual queries for single types
-                if (enabledTypes.includes('locks') || enabledTypes.includes('bridges')) {
-                  console.log('🏗️ Loading POIs data...')
-                  const poisResult = await loadPOIsData(bounds)
-                  console.log('✅ POIs data loaded:', !!poisResult)
-                }
-                if (enabledTypes.includes('harbors')) {
-                  console.log('⚓ Loading harbors/marinas data...')
-                  const harborsResult = await loadHarborsMarinasData(bounds)
-                  console.log('✅ Harbors/Marinas data loaded:', !!harborsResult)
-                }
-                if (enabledTypes.includes('gas_stations')) {
-                  console.log('⛽ Loading gas stations data...')
-                  const gasStationsResult = await loadGasStationsData(bounds)
-                  console.log('✅ Gas Stations data loaded:', !!gasStationsResult)
-                }
-                if (enabledTypes.includes('slipways')) {
-                  console.log('🚤 Loading slipways data...')
-                  const slipwaysResult = await loadSlipwaysData(bounds)
-                  console.log('✅ Slipways data loaded:', !!slipwaysResult)
-                }
-              }
-            }
-            
-            // Mark this viewport as loaded
-            setLoadedViewports(prev => new Set(prev).add(viewportKey))
-          }
-          
-          console.log('🎉 All initial data loaded successfully!')
-          setIsLoadingMap(false)
-        } catch (error) {
-          console.error('❌ Error loading initial data:', error)
-          setIsLoadingMap(false)
-        }
-      } else {
-        // Map not ready yet, just set loading to false
-        setIsLoadingMap(false)
+      try {
+        await loadVisibleMapData([])
+        console.log('🎉 All initial data loaded successfully!')
+      } catch (error) {
+        console.error('❌ Error loading initial data:', error)
       }
+      setIsLoadingMap(false)
     }, 1000)
     
     return () => clearTimeout(timer)
   }, [])
 
+  // Locks and bridges marked "avoid" from their map popup
+  useEffect(() => {
+    const handleAvoidObject = (event: CustomEvent) => {
+      avoidObject(event.detail.object)
+    }
+    
+    window.addEventListener('avoidObject', handleAvoidObject as EventListener)
+    
+    return () => {
+      window.removeEventListener('avoidObject', handleAvoidObject as EventListener)
+    }
+  }, [avoidSet, startPoint, viaPoints, endPoint])
+
   // Use custom map click hook
   useMapClick(mapRef, mapClickMode, handleMapClick)
 
@@ -1198,7 +1142,9 @@ const NavigationPage: React.FC = () => {
         id: Date.now().toString(),
         name: routeName.trim(),
         startPoint,
+        viaPoints,
         endPoint,
+        avoid: avoidSet,
         routeData: currentRoute,
         coordinates: routeCoordinates,
         totalDistance: currentRoute.totalDistance,
@@ -1251,7 +1197,9 @@ const NavigationPage: React.FC = () => {
     const handleLoadSavedRoute = (event: CustomEvent) => {
       const { route } = event.detail
       setStartPoint(route.startPoint)
+      setViaPoints(route.viaPoints || [])
       setEndPoint(route.endPoint)
+      setAvoidSet(route.avoid || createAvoidSet())
       if (route.routeData) {
         setCurrentRoute(route.routeData)
         setRouteCoordinates(route.routeData.coordinates || route.coordinates)
@@ -1272,9 +1220,9 @@ const NavigationPage: React.FC = () => {
       window.removeEventListener('saveCurrentRoute', handleSaveCurrentRoute)
       window.removeEventListener('loadSavedRoute', handleLoadSavedRoute as EventListener)
     }
-  }, [currentRoute, startPoint, endPoint, updateSetting])
+  }, [currentRoute, startPoint, viaPoints, endPoint, updateSetting])
 
-  // Add map movement handler to load data for new areas with viewport caching
+  // Load the tiles that come into view when the map moves
   useEffect(() => {
     const map = mapRef.current
     if (!map) return
@@ -1285,65 +1233,9 @@ const NavigationPage: React.FC = () => {
       clearTimeout(moveTimeout)
       
       // Set new timeout to load data after map stops moving
-      moveTimeout = setTimeout(async () => {
-        const bounds = map.getBounds()
-        const zoom = map.getZoom()
-        const viewportKey = createViewportKey(bounds, zoom)
-        
-        console.log('🗺️ Map moved to new bounds:', bounds, 'zoom:', zoom)
-        
-        // Check if we've already loaded this viewport
-        if (loadedViewports.has(viewportKey)) {
-          console.log('📍 Viewport already loaded, skipping')
-          return
-        }
-        
-        // Only load data if zoom level is appropriate (not too zoomed out)
-        if (zoom >= 10) {
-          console.log('🌊 Loading data for new map area...')
-          
-          try {
-            // Load waterways data for new area (always needed)
-            await loadWaterwaysData(bounds)
-            
-            // Load POI data efficiently
-            const enabledTypes: string[] = []
-            if (showLocks || showBridges) {
-              if (showLocks) enabledTypes.push('locks')
-              if (showBridges) enabledTypes.push('bridges')
-            }
-            if (showDocks) enabledTypes.push('harbors')
-            if (showGasStations) enabledTypes.push('gas_stations')
-            if (showSlipways) enabledTypes.push('slipways')
-            
-            if (enabledTypes.length > 0) {
-              if (enabledTypes.length > 1) {
-                await loadCombinedPOIsData(bounds, enabledTypes)
-              } else {
-                // Use individual queries for single types
-                if (enabledTypes.includes('locks') || enabledTypes.includes('bridges')) {
-                  await loadPOIsData(bounds)
-                }
-                if (enabledTypes.includes('harbors')) {
-                  await loadHarborsMarinasData(bounds)
-                }
-                if (enabledTypes.includes('gas_stations')) {
-                  await loadGasStationsData(bounds)
-                }
-                if (enabledTypes.includes('slipways')) {
-                  await loadSlipwaysData(bounds)
-                }
-              }
-            }
-            
-            // Mark this viewport as loaded
-            setLoadedViewports(prev => new Set(prev).add(viewportKey))
-            
-            console.log('✅ Data loaded for new map area')
-          } catch (error) {
-            console.error('❌ Error loading data for new area:', error)
-          }
-        }
+      moveTimeout = setTimeout(() => {
+        console.log('🗺️ Map moved to new bounds:', map.getBounds(), 'zoom:', map.getZoom())
+        loadVisibleMapData(poiLayers()).catch(error => console.error('❌ Error loading data for new area:', error))
       }, 1000) // Wait 1 second after map stops moving
     }
 
@@ -1353,7 +1245,7 @@ const NavigationPage: React.FC = () => {
       map.off('moveend', handleMapMove)
       clearTimeout(moveTimeout)
     }
-  }, [loadedViewports])
+  }, [showLocks, showBridges, showDocks, showGasStations, showSlipways, settings.offlineMode])
 
   return (
     <div className="relative w-full h-screen bg-gray-100">
@@ -1547,20 +1439,56 @@ const NavigationPage: React.FC = () => {
             <span className="text-sm font-medium">
               {mapClickMode === 'start' ? 'Click to set START point' : 
                mapClickMode === 'end' ? 'Click to set END point' :
+               mapClickMode === 'via' ? 'Click to add a STOP' :
+               mapClickMode === 'avoid' ? `Click to add corners of the AVOID area (${draftAvoidArea.length})` :
                mapClickMode === 'report' ? `Click to add ${reportMode?.replace('_', ' ')} report` :
                'Click on map'}
             </span>
+            {mapClickMode === 'avoid' && (
+              <>
+                <button
+                  onClick={finishAvoidArea}
+                  disabled={draftAvoidArea.length < 3}
+                  className="ml-2 px-2 py-1 bg-white/20 hover:bg-white/30 disabled:opacity-50 rounded text-xs font-medium"
+                >
+                  Finish area
+                </button>
+                <button
+                  onClick={cancelAvoidArea}
+                  className="px-2 py-1 bg-white/20 hover:bg-white/30 rounded text-xs font-medium"
+                >
+                  Cancel
+                </button>
+              </>
+            )}
           </div>
         </div>
       )}
 
 
       {/* Route Calculation Status */}
-      {isNavigating && (
+      {routeProgress && (
         <div className="fixed top-4 left-1/2 transform -translate-x-1/2 z-[9999] bg-blue-600 text-white px-6 py-3 rounded-lg shadow-2xl">
           <div className="flex items-center gap-3">
             <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-            <span className="text-base font-medium">Route is being calculated...</span>
+            <div>
+              <span className="text-base font-medium">
+                {routeProgress.legs && routeProgress.legs > 1 && `Leg ${(routeProgress.leg ?? 0) + 1}/${routeProgress.legs} · `}
+                {routeProgress.phase === 'fetching' ? 'Fetching waterways...' :
+                 routeProgress.phase === 'graph' ? `Building waterway graph... ${Math.round(routeProgress.fraction * 100)}%` :
+                 `Route is being calculated... ${Math.round(routeProgress.fraction * 100)}%`}
+              </span>
+              {routeProgress.expanded !== undefined && (
+                <div className="text-xs text-blue-200">{routeProgress.expanded.toLocaleString()} nodes searched</div>
+              )}
+            </div>
+            <button
+              onClick={stopNavigation}
+              className="ml-2 p-1 hover:bg-white/20 rounded transition-colors"
+              title="Cancel"
+            >
+              <X size={16} />
+            </button>
           </div>
         </div>
       )}
@@ -1587,18 +1515,95 @@ const NavigationPage: React.FC = () => {
               <div className="text-lg font-semibold">
                 {currentRoute.steps[currentStep]?.instruction || 'Follow waterways to destination'}
               </div>
+              {offRouteState === 'off-route' && navigationProgress && (
+                <div className="mt-1 flex items-center gap-2 text-sm text-orange-300">
+                  ⚠️ Off route ({Math.round(navigationProgress.offRouteMeters)} m)
+                  {!settings.autoReroute && (
+                    <button
+                      onClick={() => rerouteFromPosition(navigationProgress)}
+                      className="px-2 py-0.5 bg-orange-500/20 hover:bg-orange-500/30 rounded border border-orange-400/30 text-xs"
+                    >
+                      Reroute
+                    </button>
+                  )}
+                </div>
+              )}
+              {currentRoute.steps[currentStep] && (
+                <div className="text-xs text-gray-300">
+                  in {formatDistance(navigationProgress?.stepRemaining ?? currentRoute.steps[currentStep].distance)} on {currentRoute.steps[currentStep].waterway}
+                  {currentRoute.steps[currentStep].eta !== undefined && ` • ETA ${formatClock(currentRoute.steps[currentStep].eta)}`}
+                </div>
+              )}
             </div>
             
             <div className="text-right">
-              <div className="text-2xl font-bold text-cyan-300">
-                {(currentRoute.totalDistance / 1000).toFixed(1)} km
-              </div>
-              <div className="text-xl font-bold text-blue-300">
-                {Math.round(currentRoute.totalDistance / (settings.boatSpeed * 1000 / 3600) / 60)} min @ {settings.boatSpeed} km/h
-              </div>
+              {navigationProgress ? (
+                <>
+                  <div className="text-2xl font-bold text-cyan-300">
+                    {(navigationProgress.remainingDistance / 1000).toFixed(1)} km to go
+                  </div>
+                  <div className="text-xl font-bold text-blue-300">
+                    {navigationProgress.arrived ? 'Arrived' : `ETA ${formatClock(navigationProgress.eta)}`}
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="text-2xl font-bold text-cyan-300">
+                    {(currentRoute.totalDistance / 1000).toFixed(1)} km
+                  </div>
+                  <div className="text-xl font-bold text-blue-300">
+                    {currentRoute.totalTime} min @ {settings.boatSpeed} km/h
+                  </div>
+                </>
+              )}
             </div>
             
             <div className="flex items-center gap-4 ml-6">
+              {simulation ? (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setSimulation({ ...simulation, paused: !simulation.paused })}
+                    className="p-2 bg-purple-600/20 hover:bg-purple-600/30 rounded-lg transition-colors duration-200 border border-purple-500/30"
+                    title={simulation.paused ? 'Resume simulation' : 'Pause simulation'}
+                  >
+                    {simulation.paused ? <Play size={16} /> : <Pause size={16} />}
+                  </button>
+                  <select
+                    value={simulation.speedup}
+                    onChange={(e) => setSimulation({ ...simulation, speedup: Number(e.target.value) })}
+                    className="px-2 py-1.5 bg-purple-600/20 rounded-lg border border-purple-500/30 text-purple-200 text-sm"
+                    title="Time acceleration"
+                  >
+                    {[1, 5, 10, 30, 60].map(speedup => (
+                      <option key={speedup} value={speedup} className="text-black">{speedup}x</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setSimulation({ ...simulation, drift: simulation.drift ? 0 : 150 })}
+                    className={`px-2 py-1.5 rounded-lg transition-colors duration-200 border text-sm ${
+                      simulation.drift ? 'bg-orange-500/30 border-orange-400/50 text-orange-200' : 'bg-purple-600/20 hover:bg-purple-600/30 border-purple-500/30 text-purple-200'
+                    }`}
+                    title="Sail 150 m beside the route to try off-route handling"
+                  >
+                    Drift
+                  </button>
+                  <button
+                    onClick={() => setSimulation(null)}
+                    className="px-2 py-1.5 bg-purple-600/20 hover:bg-purple-600/30 rounded-lg transition-colors duration-200 border border-purple-500/30 text-purple-200 text-sm"
+                    title="Stop simulating and follow the GPS"
+                  >
+                    GPS
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setSimulation({ speedup: 10, paused: false, drift: 0 })}
+                  className="px-3 py-2 bg-purple-600/20 hover:bg-purple-600/30 rounded-lg transition-colors duration-200 border border-purple-500/30 text-purple-300 text-sm font-medium"
+                  title="Sail a virtual boat along the route"
+                >
+                  ▶︎ Simulate
+                </button>
+              )}
               {!showBottomNavigationPanel && currentRoute && (
                 <button
                   onClick={() => setShowBottomNavigationPanel(true)}
@@ -1630,13 +1635,24 @@ const NavigationPage: React.FC = () => {
           ref={mapRef}
         >
           {/* Base Map - Dynamic style based on settings */}
-          <TileLayer
-            url={getMapTileConfig(settings.mapStyle).url}
-            attribution={getMapTileConfig(settings.mapStyle).attribution}
-            maxZoom={19}
-            bounds={settings.mapStyle === 'standard' ? [[50.5, 3.0], [54.0, 7.5]] : undefined}
-            key={settings.mapStyle} // Force re-render when map style changes
-          />
+          {settings.offlineMode ? (
+            // Tiles of downloaded region packs first, the tile server for the rest
+            <OfflineTileLayer
+              url={getMapTileConfig(settings.mapStyle).url}
+              attribution={getMapTileConfig(settings.mapStyle).attribution}
+              maxZoom={19}
+              bounds={settings.mapStyle === 'standard' ? PDOK_BOUNDS : undefined}
+              key={settings.mapStyle}
+            />
+          ) : (
+            <TileLayer
+              url={getMapTileConfig(settings.mapStyle).url}
+              attribution={getMapTileConfig(settings.mapStyle).attribution}
+              maxZoom={19}
+              bounds={settings.mapStyle === 'standard' ? PDOK_BOUNDS : undefined}
+              key={settings.mapStyle} // Force re-render when map style changes
+            />
+          )}
           
           {/* Route Line */}
           {routeCoordinates && routeCoordinates.length > 0 && (
@@ -1650,10 +1666,63 @@ const NavigationPage: React.FC = () => {
             />
           )}
 
+          {/* Boat position, pointing where it is heading */}
+          {boatPosition && (
+            <Marker
+              position={[boatPosition.lat, boatPosition.lng]}
+              zIndexOffset={1000}
+              icon={L.divIcon({
+                className: 'custom-boat-marker',
+                html: `<img src="/boat-icon.svg" alt="" style="
+                  width: 32px;
+                  height: 32px;
+                  transform: rotate(${boatPosition.heading ?? 0}deg);
+                  filter: drop-shadow(0 2px 3px rgba(0,0,0,0.4));
+                " />`,
+                iconSize: [32, 32],
+                iconAnchor: [16, 16]
+              })}
+            />
+          )}
+
+          {/* Avoid Areas */}
+          {avoidSet.areas.map((area, index) => (
+            <Polygon
+              key={`avoid-${index}`}
+              positions={area}
+              pathOptions={{ color: '#dc2626', weight: 2, fillOpacity: 0.15 }}
+            >
+              <Popup>
+                <div className="text-sm">
+                  <strong>Avoid area {index + 1}</strong><br/>
+                  <button
+                    onClick={() => removeAvoidArea(index)}
+                    className="mt-1 text-red-600 hover:underline"
+                  >
+                    Remove area
+                  </button>
+                </div>
+              </Popup>
+            </Polygon>
+          ))}
+          {draftAvoidArea.length > 0 && (
+            <Polyline
+              positions={draftAvoidArea.length >= 3 ? [...draftAvoidArea, draftAvoidArea[0]] : draftAvoidArea}
+              pathOptions={{ color: '#dc2626', weight: 2, dashArray: '6 6' }}
+            />
+          )}
+
           {/* Navigation Points */}
           {startPoint && (
             <Marker 
               position={startPoint} 
+              draggable={true}
+              eventHandlers={{
+                dragend: (e) => {
+                  const { lat, lng } = (e.target as L.Marker).getLatLng()
+                  updateStops([lat, lng], viaPoints, endPoint)
+                }
+              }}
               icon={L.divIcon({
                 className: 'custom-start-marker',
                 html: `<div style="
@@ -1676,9 +1745,61 @@ const NavigationPage: React.FC = () => {
             />
           )}
           
+          {viaPoints.map((point, index) => (
+            <Marker
+              key={`via-${index}`}
+              position={point}
+              draggable={true}
+              eventHandlers={{
+                dragend: (e) => {
+                  const { lat, lng } = (e.target as L.Marker).getLatLng()
+                  updateStops(startPoint, viaPoints.map((p, i) => i === index ? [lat, lng] as [number, number] : p), endPoint)
+                }
+              }}
+              icon={L.divIcon({
+                className: 'custom-via-marker',
+                html: `<div style="
+                  width: 24px; 
+                  height: 24px; 
+                  background: #3b82f6; 
+                  border-radius: 50%; 
+                  display: flex; 
+                  align-items: center; 
+                  justify-content: center; 
+                  color: white; 
+                  font-size: 12px; 
+                  font-weight: bold;
+                  box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+                  border: 3px solid #2563eb;
+                ">${index + 1}</div>`,
+                iconSize: [24, 24],
+                iconAnchor: [12, 12]
+              })}
+            >
+              <Popup>
+                <div className="text-sm">
+                  <strong>Stop {index + 1}</strong><br/>
+                  <button
+                    onClick={() => removeViaPoint(index)}
+                    className="mt-1 text-red-600 hover:underline"
+                  >
+                    Remove stop
+                  </button>
+                </div>
+              </Popup>
+            </Marker>
+          ))}
+          
           {endPoint && (
             <Marker 
               position={endPoint} 
+              draggable={true}
+              eventHandlers={{
+                dragend: (e) => {
+                  const { lat, lng } = (e.target as L.Marker).getLatLng()
+                  updateStops(startPoint, viaPoints, [lat, lng])
+                }
+              }}
               icon={L.divIcon({
                 className: 'custom-end-marker',
                 html: `<div style="
@@ -1771,7 +1892,12 @@ const NavigationPage: React.FC = () => {
           ))}
           
           {/* Route Layer - Rendered AFTER waterways to ensure it appears on top */}
-          <RouteLayer coordinates={routeCoordinates} isVisible={currentRoute !== null} />
+          <RouteLayer
+            coordinates={routeCoordinates}
+            isVisible={currentRoute !== null}
+            alternatives={currentRoute?.alternatives?.map((alternative: any) => alternative.coordinates)}
+            onSelectAlternative={chooseAlternative}
+          />
 
           {/* Test Marker to verify map is working */}
           <Marker 
@@ -1827,6 +1953,14 @@ const NavigationPage: React.FC = () => {
             <span className="font-medium">Reports</span>
           </button>
           
+          <button
+            onClick={() => window.location.href = '/logbook'}
+            className="flex items-center gap-2 px-4 sm:px-6 py-3 bg-white/20 hover:bg-white/30 rounded-xl transition-all duration-200 text-white text-sm"
+          >
+            <BookOpen size={20} />
+            <span className="font-medium">Logbook</span>
+          </button>
+          
           <button
             onClick={() => window.location.href = '/settings'}
             className="flex items-center gap-2 px-4 sm:px-6 py-3 bg-white/20 hover:bg-white/30 rounded-xl transition-all duration-200 text-white text-sm"
@@ -1860,9 +1994,19 @@ const NavigationPage: React.FC = () => {
                   </span>
                 )}
               </div>
-              <div className="text-blue-200">
+              <div className="flex items-center gap-3 text-blue-200">
+                {viaPoints.length > 0 && <span>{viaPoints.length} stop{viaPoints.length > 1 ? 's' : ''}</span>}
                 {mapClickMode === 'start' ? 'Click to set start point' : 
-                 mapClickMode === 'end' ? 'Click to set end point' : 'Route ready'}
+                 mapClickMode === 'end' ? 'Click to set end point' :
+                 mapClickMode === 'via' ? 'Click to add a stop' : 'Route ready'}
+                {mapClickMode === 'end' && (
+                  <button
+                    onClick={() => setMapClickMode('via')}
+                    className="px-2 py-1 bg-white/20 hover:bg-white/30 rounded text-white text-xs font-medium"
+                  >
+                    + Add stop
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -1880,6 +2024,17 @@ const NavigationPage: React.FC = () => {
                 Click the button below, then click on the map to set start and end points
               </div>
               
+              <label className="block text-sm text-gray-700">
+                Departure time
+                <input
+                  type="datetime-local"
+                  value={departureTime}
+                  onChange={(e) => setDepartureTime(e.target.value)}
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <span className="text-xs text-gray-500">Leave empty to leave now. Seasonal closures are checked for this time.</span>
+              </label>
+              
               <button
                 onClick={() => {
                   setShowNavigationModal(false)
@@ -2138,7 +2293,8 @@ const NavigationPage: React.FC = () => {
               <div>
                 <h3 className="text-lg font-semibold">Route Complete</h3>
                 <p className="text-sm text-green-100">
-                  {(currentRoute.totalDistance / 1000).toFixed(1)} km • {Math.round(currentRoute.totalDistance / (settings.boatSpeed * 1000 / 3600) / 60)} min
+                  {(currentRoute.totalDistance / 1000).toFixed(1)} km • {currentRoute.totalTime} min
+                  {currentRoute.totalDelay > 0 && ` (incl. ${currentRoute.totalDelay} min waiting)`}
                 </p>
               </div>
               <button
@@ -2153,6 +2309,192 @@ const NavigationPage: React.FC = () => {
 
           {/* POIs List */}
           <div className="p-4 max-h-64 md:max-h-full overflow-y-auto">
+            <div className="mb-4">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="font-semibold text-gray-800">Stops</h4>
+                <button
+                  onClick={() => setMapClickMode('via')}
+                  className="px-2 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs font-medium transition-colors"
+                >
+                  + Add stop
+                </button>
+              </div>
+              <ul className="text-sm space-y-1">
+                <li className="flex items-center gap-2 text-gray-700">📍 Start</li>
+                {viaPoints.map((_, index) => (
+                  <li key={index} className="flex items-center justify-between gap-2 text-gray-700">
+                    <span>🔵 Stop {index + 1}</span>
+                    <span className="flex items-center gap-1">
+                      <button onClick={() => moveViaPoint(index, -1)} disabled={index === 0} className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30" title="Move up">▲</button>
+                      <button onClick={() => moveViaPoint(index, 1)} disabled={index === viaPoints.length - 1} className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30" title="Move down">▼</button>
+                      <button onClick={() => removeViaPoint(index)} className="px-1 text-red-500 hover:text-red-700" title="Remove stop">✕</button>
+                    </span>
+                  </li>
+                ))}
+                <li className="flex items-center gap-2 text-gray-700">🎯 Destination</li>
+              </ul>
+              {mapClickMode === 'via' && (
+                <p className="text-xs text-blue-600 mt-1">Click on the map to add a stop. Drag markers to move stops.</p>
+              )}
+            </div>
+
+            <div className="mb-4">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="font-semibold text-gray-800">Avoid</h4>
+                <button
+                  onClick={() => {
+                    setDraftAvoidArea([])
+                    setMapClickMode('avoid')
+                  }}
+                  className="px-2 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-xs font-medium transition-colors"
+                >
+                  + Draw avoid area
+                </button>
+              </div>
+              {avoidSet.areas.length === 0 && avoidSet.objects.length === 0 ? (
+                <p className="text-xs text-gray-500">Draw an area or use "Avoid" on a lock or bridge to route around it.</p>
+              ) : (
+                <ul className="text-sm space-y-1">
+                  {avoidSet.areas.map((area, index) => (
+                    <li key={`area-${index}`} className="flex items-center justify-between gap-2 text-gray-700">
+                      <span>🚫 Area {index + 1} ({area.length} corners)</span>
+                      <button onClick={() => removeAvoidArea(index)} className="px-1 text-red-500 hover:text-red-700" title="Remove area">✕</button>
+                    </li>
+                  ))}
+                  {avoidSet.objects.map((object, index) => (
+                    <li key={`object-${object.osmType}-${object.osmId}`} className="flex items-center justify-between gap-2 text-gray-700">
+                      <span>🚫 {object.kind === 'lock' ? '🔒' : '🌉'} {object.name || `${object.kind === 'lock' ? 'Lock' : 'Bridge'} ${object.osmId}`}</span>
+                      <button onClick={() => removeAvoidObject(index)} className="px-1 text-red-500 hover:text-red-700" title="Stop avoiding">✕</button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {currentRoute.passesAvoided && (
+                <p className="text-xs text-red-600 mt-1">⚠️ No way around everything you want to avoid - the route still passes through it.</p>
+              )}
+            </div>
+
+            {currentRoute.alternatives?.length > 0 && (
+              <div className="mb-4">
+                <h4 className="font-semibold text-gray-800 mb-2">Route options</h4>
+                <div className="space-y-2">
+                  {[currentRoute, ...currentRoute.alternatives].map((option: any, index: number) => (
+                    <button
+                      key={index}
+                      onClick={() => index > 0 && chooseAlternative(index - 1)}
+                      className={`w-full text-left p-2 rounded-lg border transition-colors ${index === 0 ? 'border-green-500 bg-green-50' : 'border-gray-200 bg-gray-50 hover:bg-gray-100'}`}
+                    >
+                      <div className="flex items-center justify-between text-sm font-medium text-gray-900">
+                        <span className="flex items-center gap-2">
+                          <span
+                            className="inline-block w-4 h-1 rounded"
+                            style={{ background: index === 0 ? '#22c55e' : ALTERNATIVE_ROUTE_STYLES[(index - 1) % ALTERNATIVE_ROUTE_STYLES.length].color }}
+                          ></span>
+                          {index === 0 ? 'Active route' : `Alternative ${index}`}
+                        </span>
+                        <span>{(option.totalDistance / 1000).toFixed(1)} km • {formatTime(option.totalTime)}</span>
+                      </div>
+                      <div className="text-xs text-gray-600 mt-1">
+                        🔒 {option.locks} lock{option.locks === 1 ? '' : 's'} • 🌉 {option.bridges} bridge{option.bridges === 1 ? '' : 's'}
+                        {option.minClearance !== undefined && ` • lowest clearance ${option.minClearance.toFixed(1)} m`}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {currentRoute.legs?.length > 1 && (
+              <div className="mb-4">
+                <h4 className="font-semibold text-gray-800 mb-2">Legs</h4>
+                <ul className="text-sm space-y-1">
+                  {currentRoute.legs.map((leg: any, index: number) => (
+                    <li key={index} className="flex justify-between gap-2 p-2 bg-gray-50 rounded">
+                      <span>
+                        {index === 0 ? 'Start' : `Stop ${index}`} → {index === currentRoute.legs.length - 1 ? 'Destination' : `Stop ${index + 1}`}
+                      </span>
+                      <span className="whitespace-nowrap text-gray-600">
+                        {(leg.distance / 1000).toFixed(1)} km • {formatTime(leg.time)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {currentRoute.detours?.length > 0 && (
+              <div className="mb-4 p-3 bg-orange-50 border border-orange-200 rounded-lg">
+                <h4 className="font-semibold text-orange-800 mb-1">Detour for your boat</h4>
+                <ul className="text-sm text-orange-700 space-y-1">
+                  {currentRoute.detours.map((detour: any, index: number) => (
+                    <li key={index}>⚠️ Avoided {describeViolation(detour)}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {currentRoute.steps?.length > 1 && (
+              <div className="mb-4">
+                <h4 className="font-semibold text-gray-800 mb-2">Directions</h4>
+                <ol className="text-sm space-y-1 max-h-48 overflow-y-auto">
+                  {currentRoute.steps.map((step: any, index: number) => (
+                    <li
+                      key={index}
+                      className={`flex justify-between gap-2 p-2 rounded ${index === currentStep ? 'bg-blue-50 border border-blue-200' : 'bg-gray-50'}`}
+                    >
+                      <span>
+                        {step.passage ? (step.passage.kind === 'lock' ? '🔒 ' : '🌉 ') : ''}{step.instruction}
+                        <span className="block text-xs text-gray-500">{formatDistance(step.distance)} on {step.waterway}</span>
+                      </span>
+                      <span className="whitespace-nowrap text-gray-600">{step.eta !== undefined && formatClock(step.eta)}</span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            {currentRoute.steps?.some((step: any) => step.passage) && (
+              <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                <h4 className="font-semibold text-blue-800 mb-1">Bridge & lock delays</h4>
+                <ul className="text-sm text-blue-700 space-y-1">
+                  {currentRoute.steps.filter((step: any) => step.passage).map((step: any, index: number) => (
+                    <li key={index} className="flex justify-between gap-2">
+                      <span>{step.passage.kind === 'lock' ? '🔒' : '🌉'} {step.instruction}</span>
+                      <span className="flex items-center gap-2 whitespace-nowrap">
+                        +{step.delay} min
+                        <button
+                          onClick={() => avoidObject({
+                            osmType: step.passage.osmType,
+                            osmId: step.passage.osmId,
+                            kind: step.passage.kind,
+                            name: step.passage.name,
+                            at: step.passage.at
+                          })}
+                          className="text-xs text-red-600 hover:underline"
+                        >
+                          Avoid
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {currentRoute.speedRestrictions?.length > 0 && (
+              <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <h4 className="font-semibold text-yellow-800 mb-1">Speed limits</h4>
+                <ul className="text-sm text-yellow-700 space-y-1">
+                  {currentRoute.speedRestrictions.map((stretch: any, index: number) => (
+                    <li key={index} className="flex justify-between gap-2">
+                      <span>🐢 {stretch.name || 'Waterway'}: max {stretch.limitKmh.toFixed(1).replace(/\.0$/, '')} km/h for {(stretch.meters / 1000).toFixed(1)} km</span>
+                      <span className="whitespace-nowrap">+{Math.round(stretch.delaySeconds / 60)} min</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <h4 className="font-semibold text-gray-800 mb-3">Points of Interest Along Route</h4>
             {routePOIs.length > 0 ? (
               <div className="space-y-2">
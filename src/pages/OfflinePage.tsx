@@ -0,0 +1,389 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react'
+import { MapContainer, Polyline, Rectangle, useMap, useMapEvents } from 'react-leaflet'
+import 'leaflet/dist/leaflet.css'
+import { AlertTriangle, BookOpen, Download, Navigation, Settings, Square, Trash2, X } from 'lucide-react'
+import L from 'leaflet'
+import { useSettings } from '../contexts/SettingsContext'
+import OfflineTileLayer from '../components/OfflineTileLayer'
+import { Bounds } from '../utils/routing'
+import { getMapTileConfig } from '../utils/baseMap'
+import {
+  MAX_PACK_BASE_TILES, PackProgress, RegionPack, deleteRegionPack, downloadRegionPack, estimatePack, loadRegionPacks,
+  routeAreas
+} from '../utils/offlinePacks'
+import { formatBytes } from '../utils/poiUtils'
+
+interface SavedRoute {
+  id: string
+  name: string
+  coordinates: [number, number][]
+}
+
+const SAVED_ROUTES_KEY = 'vaarpro_saved_routes'
+
+const ZOOM_LEVELS = [8, 9, 10, 11, 12, 13, 14, 15, 16, 17]
+
+const loadSavedRoutes = (): SavedRoute[] => {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_ROUTES_KEY) || '[]').filter((route: any) => route.coordinates?.length > 1)
+  } catch {
+    return []
+  }
+}
+
+const toLatLngBounds = (bounds: Bounds): L.LatLngBoundsExpression => [[bounds.s, bounds.w], [bounds.n, bounds.e]]
+
+// Overall extent of a pack, to show it on the map
+const extentOf = (areas: Bounds[]): Bounds => ({
+  s: Math.min(...areas.map(area => area.s)),
+  w: Math.min(...areas.map(area => area.w)),
+  n: Math.max(...areas.map(area => area.n)),
+  e: Math.max(...areas.map(area => area.e))
+})
+
+// Two clicks on the map set opposite corners of the area
+const AreaPicker: React.FC<{ active: boolean, onPick: (bounds: Bounds) => void }> = ({ active, onPick }) => {
+  const corner = useRef<L.LatLng | null>(null)
+  useEffect(() => {
+    corner.current = null
+  }, [active])
+  useMapEvents({
+    click(event) {
+      if (!active) return
+      if (!corner.current) {
+        corner.current = event.latlng
+        return
+      }
+      const a = corner.current, b = event.latlng
+      corner.current = null
+      onPick({ s: Math.min(a.lat, b.lat), w: Math.min(a.lng, b.lng), n: Math.max(a.lat, b.lat), e: Math.max(a.lng, b.lng) })
+    }
+  })
+  return null
+}
+
+// Zoom to the selection
+const FitBounds: React.FC<{ bounds: Bounds | null }> = ({ bounds }) => {
+  const map = useMap()
+  useEffect(() => {
+    if (bounds) map.fitBounds(toLatLngBounds(bounds), { padding: [20, 20] })
+  }, [map, bounds])
+  return null
+}
+
+const OfflinePage: React.FC = () => {
+  const { settings } = useSettings()
+  const [packs, setPacks] = useState<RegionPack[]>([])
+  const [savedRoutes] = useState<SavedRoute[]>(loadSavedRoutes)
+  const [source, setSource] = useState<'area' | 'route'>('area')
+  const [area, setArea] = useState<Bounds | null>(null)
+  const [picking, setPicking] = useState(false)
+  const [routeId, setRouteId] = useState<string>(savedRoutes[0]?.id ?? '')
+  const [name, setName] = useState('')
+  const [minZoom, setMinZoom] = useState(10)
+  const [maxZoom, setMaxZoom] = useState(15)
+  const [progress, setProgress] = useState<PackProgress | null>(null)
+  const downloadRef = useRef<AbortController | null>(null)
+  const mapRef = useRef<L.Map | null>(null)
+  const tiles = getMapTileConfig(settings.mapStyle)
+
+  const selectedRoute = savedRoutes.find(route => route.id === routeId) || null
+  const areas = useMemo<Bounds[]>(
+    () => source === 'area' ? (area ? [area] : []) : (selectedRoute ? routeAreas(selectedRoute.coordinates) : []),
+    [source, area, selectedRoute]
+  )
+  const routeExtent = useMemo(() => source === 'route' && areas.length > 0 ? extentOf(areas) : null, [source, areas])
+  const estimate = useMemo(
+    () => areas.length > 0 ? estimatePack({ areas, mapStyle: settings.mapStyle, minZoom, maxZoom }) : null,
+    [areas, settings.mapStyle, minZoom, maxZoom]
+  )
+  const tooLarge = !!estimate && estimate.baseTiles > MAX_PACK_BASE_TILES
+
+  const refreshPacks = () => {
+    loadRegionPacks()
+      .then(setPacks)
+      .catch(error => console.warn('⚠️ Could not read offline packs:', error))
+  }
+
+  useEffect(refreshPacks, [])
+
+  useEffect(() => () => downloadRef.current?.abort(), [])
+
+  const selectVisibleArea = () => {
+    const view = mapRef.current?.getBounds()
+    if (!view) return
+    setPicking(false)
+    setArea({ s: view.getSouth(), w: view.getWest(), n: view.getNorth(), e: view.getEast() })
+  }
+
+  const handleDownload = async () => {
+    if (!estimate || areas.length === 0) return
+    if (tooLarge) {
+      alert(`This pack needs ${estimate.baseTiles.toLocaleString()} map tiles. Choose a smaller area or a lower maximum zoom.`)
+      return
+    }
+    const packName = name.trim() || (source === 'route' && selectedRoute ? selectedRoute.name : `Area of ${new Date().toLocaleDateString()}`)
+    const controller = new AbortController()
+    downloadRef.current = controller
+    setProgress({ phase: 'data', done: 0, total: 1, bytes: 0 })
+    try {
+      const pack = await downloadRegionPack(
+        { name: packName, kind: source, areas, mapStyle: settings.mapStyle, minZoom, maxZoom },
+        { signal: controller.signal, onProgress: setProgress }
+      )
+      if (!pack.complete) alert(`"${pack.name}" was saved, but some tiles could not be downloaded. Download it again to fill the gaps.`)
+      setName('')
+      setArea(null)
+    } catch (error: any) {
+      if (error?.name !== 'AbortError') {
+        console.error('❌ Pack download failed:', error)
+        alert(`Download failed: ${error?.message || error}`)
+      }
+    } finally {
+      downloadRef.current = null
+      setProgress(null)
+      refreshPacks()
+    }
+  }
+
+  const handleDelete = async (pack: RegionPack) => {
+    if (!confirm(`Delete the offline pack "${pack.name}"?`)) return
+    try {
+      await deleteRegionPack(pack.id)
+    } catch (error) {
+      console.error('❌ Failed to delete pack:', error)
+      alert('Could not delete the pack.')
+    }
+    refreshPacks()
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 pt-16 pb-28">
+      <div className="max-w-4xl mx-auto px-4">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-marine-blue mb-2">Offline Maps</h1>
+          <p className="text-gray-600">Download waterways, POIs and the map of a sailing area</p>
+        </div>
+
+        {!settings.offlineMode && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+            Offline Mode is switched off in Settings. Downloaded packs are only used while it is on.
+          </div>
+        )}
+
+        {/* New pack */}
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-200 overflow-hidden mb-6">
+          <div className="h-80">
+            <MapContainer center={[52.3676, 4.9041]} zoom={10} className="h-full w-full" ref={mapRef}>
+              <OfflineTileLayer url={tiles.url} attribution={tiles.attribution} maxZoom={19} />
+              <AreaPicker active={picking && source === 'area'} onPick={(bounds) => {
+                setArea(bounds)
+                setPicking(false)
+              }} />
+              {packs.map(pack => (
+                <Rectangle
+                  key={pack.id}
+                  bounds={toLatLngBounds(extentOf(pack.areas))}
+                  pathOptions={{ color: '#16a34a', weight: 1, dashArray: '4 4', fillOpacity: 0.05 }}
+                />
+              ))}
+              {source === 'area' && area && (
+                <>
+                  <FitBounds bounds={area} />
+                  <Rectangle bounds={toLatLngBounds(area)} pathOptions={{ color: '#0ea5e9', weight: 2, fillOpacity: 0.1 }} />
+                </>
+              )}
+              {source === 'route' && selectedRoute && (
+                <>
+                  <FitBounds bounds={routeExtent} />
+                  <Polyline positions={selectedRoute.coordinates} pathOptions={{ color: '#0ea5e9', weight: 4, opacity: 0.9 }} />
+                </>
+              )}
+            </MapContainer>
+          </div>
+
+          <div className="p-6 space-y-4">
+            <div className="flex gap-2">
+              <button
+                onClick={() => setSource('area')}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${source === 'area' ? 'bg-marine-blue text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                Map area
+              </button>
+              <button
+                onClick={() => setSource('route')}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${source === 'route' ? 'bg-marine-blue text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                Saved route
+              </button>
+            </div>
+
+            {source === 'area' ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => setPicking(!picking)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${picking ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                >
+                  <Square size={16} />
+                  {picking ? 'Click two corners on the map' : 'Draw rectangle'}
+                </button>
+                <button
+                  onClick={selectVisibleArea}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 hover:bg-gray-200 rounded-lg text-sm font-medium transition-colors"
+                >
+                  Use visible area
+                </button>
+              </div>
+            ) : savedRoutes.length > 0 ? (
+              <select
+                value={routeId}
+                onChange={(e) => setRouteId(e.target.value)}
+                className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg block w-full p-2.5"
+              >
+                {savedRoutes.map(route => (
+                  <option key={route.id} value={route.id}>{route.name}</option>
+                ))}
+              </select>
+            ) : (
+              <div className="text-sm text-gray-600">No saved routes yet. Save a route on the navigation page first.</div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Pack name"
+                className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg block w-full p-2.5"
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                Zoom from
+                <select
+                  value={minZoom}
+                  onChange={(e) => setMinZoom(Math.min(Number(e.target.value), maxZoom))}
+                  className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-2"
+                >
+                  {ZOOM_LEVELS.map(zoom => <option key={zoom} value={zoom}>{zoom}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                to
+                <select
+                  value={maxZoom}
+                  onChange={(e) => setMaxZoom(Math.max(Number(e.target.value), minZoom))}
+                  className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-2"
+                >
+                  {ZOOM_LEVELS.map(zoom => <option key={zoom} value={zoom}>{zoom}</option>)}
+                </select>
+              </label>
+            </div>
+
+            {estimate && (
+              <div className={`text-sm ${tooLarge ? 'text-red-700' : 'text-gray-600'}`}>
+                {estimate.dataTiles} data {estimate.dataTiles === 1 ? 'tile' : 'tiles'} • {estimate.baseTiles.toLocaleString()} map tiles • about {formatBytes(estimate.bytes)}
+                {tooLarge && ` — more than ${MAX_PACK_BASE_TILES.toLocaleString()} map tiles, choose a smaller area or zoom range`}
+              </div>
+            )}
+
+            {progress ? (
+              <div>
+                <div className="flex items-center justify-between text-sm text-gray-700 mb-2">
+                  <span>
+                    {progress.phase === 'data' ? 'Waterways, POIs and routing data' : 'Map tiles'} • {progress.done}/{progress.total} • {formatBytes(progress.bytes)}
+                  </span>
+                  <button
+                    onClick={() => downloadRef.current?.abort()}
+                    className="flex items-center gap-1 text-red-600 hover:text-red-700"
+                  >
+                    <X size={16} />
+                    Cancel
+                  </button>
+                </div>
+                <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div className="h-full bg-marine-blue transition-all" style={{ width: `${Math.round(progress.done / progress.total * 100)}%` }} />
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={handleDownload}
+                disabled={!estimate || tooLarge}
+                className="flex items-center gap-2 px-4 py-2 bg-marine-blue text-white rounded-lg font-medium hover:bg-blue-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download size={16} />
+                Download pack
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Downloaded packs */}
+        <div className="space-y-4">
+          {packs.map(pack => (
+            <div key={pack.id} className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6 flex items-start justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {pack.name}
+                  {!pack.complete && <span className="ml-2 text-xs font-medium text-amber-700 bg-amber-100 px-2 py-0.5 rounded-full">Incomplete</span>}
+                </h3>
+                <p className="text-sm text-gray-600">
+                  {pack.kind === 'route' ? 'Route corridor' : 'Area'} • {new Date(pack.createdAt).toLocaleDateString()} • {formatBytes(pack.bytes)}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {pack.dataTiles.length} data {pack.dataTiles.length === 1 ? 'tile' : 'tiles'} • {pack.baseTiles.toLocaleString()} map tiles, zoom {pack.minZoom}–{pack.maxZoom}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDelete(pack)}
+                disabled={!!progress}
+                className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                title="Delete pack"
+              >
+                <Trash2 size={18} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Bottom Navigation Panel */}
+      <div className="fixed bottom-0 left-0 right-0 z-[9999] bg-gradient-to-br from-blue-600 to-cyan-600 backdrop-blur-md border-t border-white/30 shadow-2xl">
+        <div className="flex items-center justify-center gap-4 px-4 sm:px-6 py-3 sm:py-4">
+          <button
+            onClick={() => window.location.href = '/'}
+            className="flex items-center gap-2 px-4 sm:px-6 py-3 bg-white/20 hover:bg-white/30 rounded-xl transition-all duration-200 text-white text-sm"
+          >
+            <Navigation size={20} />
+            <span className="font-medium">Navigation</span>
+          </button>
+
+          <button
+            onClick={() => window.location.href = '/reports'}
+            className="flex items-center gap-2 px-4 sm:px-6 py-3 bg-white/20 hover:bg-white/30 rounded-xl transition-all duration-200 text-white text-sm"
+          >
+            <AlertTriangle size={20} />
+            <span className="font-medium">Reports</span>
+          </button>
+
+          <button
+            onClick={() => window.location.href = '/logbook'}
+            className="flex items-center gap-2 px-4 sm:px-6 py-3 bg-white/20 hover:bg-white/30 rounded-xl transition-all duration-200 text-white text-sm"
+          >
+            <BookOpen size={20} />
+            <span className="font-medium">Logbook</span>
+          </button>
+
+          <button
+            onClick={() => window.location.href = '/settings'}
+            className="flex items-center gap-2 px-4 sm:px-6 py-3 bg-white/20 hover:bg-white/30 rounded-xl transition-all duration-200 text-white text-sm"
+          >
+            <Settings size={20} />
+            <span className="font-medium">Settings</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default OfflinePage
@@ -1,5 +1,5 @@
 import React, { useState } from 'react'
-import { AlertTriangle, Fuel, Anchor, Lock, MapPin, Camera, Send, ThumbsUp, MessageCircle, Clock, User, Navigation, Settings } from 'lucide-react'
+import { AlertTriangle, Fuel, Anchor, Lock, MapPin, Camera, Send, ThumbsUp, MessageCircle, Clock, User, Navigation, Settings, BookOpen } from 'lucide-react'
 
 interface Report {
   id: string
@@ -317,6 +317,14 @@ const ReportsPage: React.FC = () => {
             <span className="font-medium">Reports</span>
           </button>
           
+          <button
+            onClick={() => window.location.href = '/logbook'}
+            className="flex items-center gap-2 px-4 sm:px-6 py-3 bg-white/20 hover:bg-white/30 rounded-xl transition-all duration-200 text-white text-sm"
+          >
+            <BookOpen size={20} />
+            <span className="font-medium">Logbook</span>
+          </button>
+          
           <button
             onClick={() => window.location.href = '/settings'}
             className="flex items-center gap-2 px-4 sm:px-6 py-3 bg-white/20 hover:bg-white/30 rounded-xl transition-all duration-200 text-white text-sm"
@@ -1,6 +1,14 @@
-import React from 'react'
-import { Settings as SettingsIcon, Navigation, Map, Bell, Shield, Globe, User, Palette, Smartphone, AlertTriangle } from 'lucide-react'
+import React, { useState, useEffect } from 'react'
+import { Settings as SettingsIcon, Navigation, Map, Bell, Shield, Globe, User, Palette, Smartphone, AlertTriangle, BookOpen, Database, Trash2 } from 'lucide-react'
 import { useSettings } from '../contexts/SettingsContext'
+import { OverpassCacheStats, OverpassDataClass, clearOverpassCache, getOverpassCacheStats } from '../utils/overpassCache'
+import { formatBytes } from '../utils/poiUtils'
+
+const CACHE_CLASS_LABELS: Record<OverpassDataClass, string> = {
+  waterways: 'Waterways',
+  structures: 'Locks & bridges',
+  facilities: 'Harbours, fuel & slipways'
+}
 
 interface SettingsSection {
   id: string
@@ -18,6 +26,26 @@ interface SettingsSection {
 
 const SettingsPage: React.FC = () => {
   const { settings, updateSetting } = useSettings()
+  const [cacheStats, setCacheStats] = useState<OverpassCacheStats | null>(null)
+
+  const refreshCacheStats = () => {
+    getOverpassCacheStats()
+      .then(setCacheStats)
+      .catch(error => console.warn('⚠️ Could not read the map data cache:', error))
+  }
+
+  useEffect(refreshCacheStats, [])
+
+  const handleClearCache = async () => {
+    if (!confirm('Remove all cached map data? It is downloaded again when needed.')) return
+    try {
+      await clearOverpassCache()
+    } catch (error) {
+      console.error('❌ Failed to clear the map data cache:', error)
+      alert('Could not clear the map data cache.')
+    }
+    refreshCacheStats()
+  }
 
   const settingsSections: SettingsSection[] = [
     {
@@ -77,9 +105,23 @@ const SettingsPage: React.FC = () => {
         {
           id: 'autoReroute',
           label: 'Auto Reroute',
-          description: 'Automatically find alternative routes',
+          description: 'Plan a new route when you leave the current one',
           type: 'toggle',
-          value: true
+          value: settings.autoReroute
+        },
+        {
+          id: 'offRouteMeters',
+          label: 'Off-Route Distance (m)',
+          description: 'How far from the route counts as off route',
+          type: 'input',
+          value: settings.offRouteMeters
+        },
+        {
+          id: 'trackIntervalSeconds',
+          label: 'Track Interval (s)',
+          description: 'How often the logbook records your position',
+          type: 'input',
+          value: settings.trackIntervalSeconds
         },
         {
           id: 'speedUnits',
@@ -92,6 +134,20 @@ const SettingsPage: React.FC = () => {
             { value: 'kmh', label: 'Kilometers per hour' },
             { value: 'mph', label: 'Miles per hour' }
           ]
+        },
+        {
+          id: 'bridgeWaitMinutes',
+          label: 'Bridge Wait (min)',
+          description: 'Average wait for a movable bridge to open',
+          type: 'input',
+          value: settings.bridgeWaitMinutes
+        },
+        {
+          id: 'lockWaitMinutes',
+          label: 'Lock Wait (min)',
+          description: 'Average wait and locking time per lock',
+          type: 'input',
+          value: settings.lockWaitMinutes
         }
       ]
     },
@@ -178,7 +234,7 @@ const SettingsPage: React.FC = () => {
         {
           id: 'offlineMode',
           label: 'Offline Mode',
-          description: 'Enable offline map and navigation',
+          description: 'Use downloaded region packs for the map and routing when there is no connection',
           type: 'toggle',
           value: true
         }
@@ -261,15 +317,19 @@ const SettingsPage: React.FC = () => {
       case 'input':
         // Check if this is a boat profile setting to use number input
         const isBoatSetting = setting.id.startsWith('boat')
+        const isWaitSetting = setting.id.endsWith('WaitMinutes')
+        const isOffRouteSetting = setting.id === 'offRouteMeters'
+        const isTrackSetting = setting.id === 'trackIntervalSeconds'
+        const isNumeric = isBoatSetting || isWaitSetting || isOffRouteSetting || isTrackSetting
         return (
           <input
-            type={isBoatSetting ? 'number' : 'text'}
-            min={isBoatSetting ? (setting.id === 'boatLength' ? 1 : setting.id === 'boatWidth' ? 0.5 : setting.id === 'boatSpeed' ? 1 : 0.5) : undefined}
-            max={isBoatSetting ? (setting.id === 'boatSpeed' ? 50 : 20) : undefined}
-            step={isBoatSetting ? (setting.id === 'boatSpeed' ? 0.5 : 0.1) : undefined}
+            type={isNumeric ? 'number' : 'text'}
+            min={isBoatSetting ? (setting.id === 'boatLength' ? 1 : setting.id === 'boatWidth' ? 0.5 : setting.id === 'boatSpeed' ? 1 : 0.5) : isWaitSetting ? 0 : isOffRouteSetting ? 10 : isTrackSetting ? 1 : undefined}
+            max={isBoatSetting ? (setting.id === 'boatSpeed' ? 50 : 20) : isWaitSetting ? 120 : isOffRouteSetting ? 500 : isTrackSetting ? 300 : undefined}
+            step={isBoatSetting ? (setting.id === 'boatSpeed' ? 0.5 : 0.1) : isWaitSetting ? 1 : isOffRouteSetting ? 5 : isTrackSetting ? 1 : undefined}
             className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-marine-blue focus:border-marine-blue block w-full p-2.5"
             value={setting.value}
-            onChange={(e) => handleSettingChange('', setting.id, isBoatSetting ? parseFloat(e.target.value) || 0 : e.target.value)}
+            onChange={(e) => handleSettingChange('', setting.id, isNumeric ? parseFloat(e.target.value) || 0 : e.target.value)}
           />
         )
       
@@ -332,11 +392,59 @@ const SettingsPage: React.FC = () => {
           })}
         </div>
 
+        {/* Map data cache */}
+        <div className="mt-6 bg-white rounded-2xl shadow-lg border border-gray-200 overflow-hidden">
+          <div className="bg-gradient-to-r from-marine-blue to-blue-600 px-6 py-4">
+            <div className="flex items-center gap-3">
+              <Database className="text-white" size={24} />
+              <h2 className="text-xl font-semibold text-white">Map Data Cache</h2>
+            </div>
+          </div>
+
+          <div className="p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <div className="font-medium text-gray-900">
+                  {cacheStats ? `${formatBytes(cacheStats.bytes)} in ${cacheStats.entries} ${cacheStats.entries === 1 ? 'area' : 'areas'}` : 'Reading cache…'}
+                </div>
+                <div className="text-sm text-gray-600">
+                  Waterways, locks, bridges and harbours are kept on this device and refreshed in the background
+                </div>
+              </div>
+              <button
+                onClick={handleClearCache}
+                disabled={!cacheStats || cacheStats.entries === 0}
+                className="ml-4 flex items-center gap-2 px-4 py-2 bg-red-50 text-red-700 hover:bg-red-100 rounded-lg font-medium transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Trash2 size={16} />
+                Clear cache
+              </button>
+            </div>
+
+            {cacheStats && cacheStats.entries > 0 && (
+              <div className="space-y-2 text-sm">
+                {(Object.keys(CACHE_CLASS_LABELS) as OverpassDataClass[]).map(dataClass => (
+                  <div key={dataClass} className="flex justify-between text-gray-700">
+                    <span>{CACHE_CLASS_LABELS[dataClass]}</span>
+                    <span>{cacheStats.byClass[dataClass].entries} • {formatBytes(cacheStats.byClass[dataClass].bytes)}</span>
+                  </div>
+                ))}
+                {cacheStats.oldest && (
+                  <div className="text-gray-500 pt-2">Oldest data from {new Date(cacheStats.oldest).toLocaleDateString()}</div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Quick Actions */}
         <div className="mt-8 bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
           <h3 className="text-lg font-semibold text-marine-blue mb-4">Quick Actions</h3>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <button className="flex items-center gap-3 p-4 bg-blue-50 hover:bg-blue-100 rounded-xl transition-colors">
+            <button
+              onClick={() => window.location.href = '/offline'}
+              className="flex items-center gap-3 p-4 bg-blue-50 hover:bg-blue-100 rounded-xl transition-colors"
+            >
               <Globe className="text-blue-600" />
               <div className="text-left">
                 <div className="font-medium text-gray-900">Download Offline Maps</div>
@@ -396,6 +504,14 @@ const SettingsPage: React.FC = () => {
             <span className="font-medium">Reports</span>
           </button>
           
+          <button
+            onClick={() => window.location.href = '/logbook'}
+            className="flex items-center gap-2 px-4 sm:px-6 py-3 bg-white/20 hover:bg-white/30 rounded-xl transition-all duration-200 text-white text-sm"
+          >
+            <BookOpen size={20} />
+            <span className="font-medium">Logbook</span>
+          </button>
+          
           <button
             onClick={() => window.location.href = '/settings'}
             className="flex items-center gap-2 px-4 sm:px-6 py-3 bg-white text-blue-600 hover:bg-blue-50 rounded-xl transition-all duration-200 font-medium shadow-lg text-sm"
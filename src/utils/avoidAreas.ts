@@ -0,0 +1,83 @@
+// Avoid areas and avoided objects for VaarApp routing
+// Polygons drawn on the map and locks/bridges the skipper marked as "avoid"
+
+export interface AvoidObject {
+  osmType: 'node' | 'way'
+  osmId: number
+  kind: 'lock' | 'bridge'
+  name?: string
+  at: [number, number] // [lat, lng]
+}
+
+// Structured-clone friendly, sent to the routing worker and saved with routes
+export interface AvoidSet {
+  areas: [number, number][][] // Polygons as [lat, lng] rings, not closed
+  objects: AvoidObject[]
+}
+
+// Cost multiplier for avoided edges: high enough that any reasonable detour wins, but
+// a route is still found when there is no way around (e.g. the start lies in the area)
+export const AVOID_PENALTY = 100
+
+// Avoided objects also match edges within this distance, for POIs whose OSM element
+// is not the one the router attached to the graph
+export const AVOID_RADIUS_METERS = 30
+
+export const createAvoidSet = (): AvoidSet => ({ areas: [], objects: [] })
+
+export const isAvoidSetEmpty = (avoid?: AvoidSet | null) =>
+  !avoid || (avoid.areas.length === 0 && avoid.objects.length === 0)
+
+export const isObjectAvoided = (avoid: AvoidSet, osmType: string, osmId: number) =>
+  avoid.objects.some(o => o.osmType === osmType && o.osmId === osmId)
+
+// Ray casting in lon/lat, fine at city scale
+export const pointInPolygon = ([lat, lng]: [number, number], polygon: [number, number][]) => {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i], [latJ, lngJ] = polygon[j]
+    if ((latI > lat) !== (latJ > lat) && lng < (lngJ - lngI) * (lat - latI) / (latJ - latI) + lngI) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// Do segments p1-p2 and q1-q2 cross? Planar test, fine at city scale
+export const segmentsIntersect = (p1: [number, number], p2: [number, number], q1: [number, number], q2: [number, number]) => {
+  const orient = (a: [number, number], b: [number, number], c: [number, number]) =>
+    Math.sign((b[1] - a[1]) * (c[0] - a[0]) - (b[0] - a[0]) * (c[1] - a[1]))
+  return orient(p1, p2, q1) !== orient(p1, p2, q2) && orient(q1, q2, p1) !== orient(q1, q2, p2)
+}
+
+// Does segment a-b lie in or cross the polygon?
+export const segmentTouchesPolygon = (a: [number, number], b: [number, number], polygon: [number, number][]) => {
+  if (polygon.length < 3) return false
+  if (pointInPolygon(a, polygon) || pointInPolygon(b, polygon)) return true
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    if (segmentsIntersect(a, b, polygon[j], polygon[i])) return true
+  }
+  return false
+}
+
+// Distance from p to segment a-b in meters (equirectangular projection around p)
+export const distanceToSegmentMeters = (p: [number, number], a: [number, number], b: [number, number]) => {
+  const mPerLat = 111320
+  const mPerLng = 111320 * Math.cos(p[0] * Math.PI / 180)
+  const ax = (a[1] - p[1]) * mPerLng, ay = (a[0] - p[0]) * mPerLat
+  const bx = (b[1] - p[1]) * mPerLng, by = (b[0] - p[0]) * mPerLat
+  const dx = bx - ax, dy = by - ay
+  const len2 = dx * dx + dy * dy
+  const t = len2 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2)) : 0
+  return Math.hypot(ax + t * dx, ay + t * dy)
+}
+
+// Bounding box per polygon for a cheap first test
+export const polygonBounds = (polygon: [number, number][]) => {
+  let s = Infinity, w = Infinity, n = -Infinity, e = -Infinity
+  for (const [lat, lng] of polygon) {
+    s = Math.min(s, lat); n = Math.max(n, lat)
+    w = Math.min(w, lng); e = Math.max(e, lng)
+  }
+  return { s, w, n, e }
+}
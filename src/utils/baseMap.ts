@@ -0,0 +1,70 @@
+// Base map tiles for VaarApp
+// Tile sources per map style, and the Cache Storage holding tiles downloaded for offline use
+
+import { Bounds } from './routing'
+import { DataTile, tilesForBounds } from './mapDataStore'
+
+export interface MapTileConfig {
+  url: string
+  attribution: string
+}
+
+// Cache Storage name for downloaded base map tiles
+export const BASE_MAP_CACHE = 'vaarapp-basemap'
+
+// Helper function to get tile URL and attribution based on map style
+export const getMapTileConfig = (mapStyle: string): MapTileConfig => {
+  switch (mapStyle) {
+    case 'standard':
+      return {
+        url: 'https://service.pdok.nl/brt/achtergrondkaart/wmts/v2_0/standaard/EPSG:3857/{z}/{x}/{y}.png',
+        attribution: '&copy; <a href="https://www.pdok.nl/">PDOK</a> | <a href="https://www.kadaster.nl/">Kadaster</a>'
+      }
+    case 'satellite':
+      return {
+        url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+        attribution: '&copy; <a href="https://www.esri.com/">Esri</a>'
+      }
+    case 'terrain':
+      return {
+        url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}',
+        attribution: '&copy; <a href="https://www.esri.com/">Esri</a>'
+      }
+    default:
+      return {
+        url: 'https://service.pdok.nl/brt/achtergrondkaart/wmts/v2_0/standaard/EPSG:3857/{z}/{x}/{y}.png',
+        attribution: '&copy; <a href="https://www.pdok.nl/">PDOK</a> | <a href="https://www.kadaster.nl/">Kadaster</a>'
+      }
+  }
+}
+
+export const tileUrl = (template: string, tile: DataTile) =>
+  template.replace('{z}', String(tile.z)).replace('{x}', String(tile.x)).replace('{y}', String(tile.y))
+
+// Base map tile URLs covering the areas at every zoom level of the range
+export const baseTileUrls = (areas: Bounds[], mapStyle: string, minZoom: number, maxZoom: number): string[] => {
+  const { url } = getMapTileConfig(mapStyle)
+  const urls = new Set<string>()
+  for (let z = minZoom; z <= maxZoom; z++) {
+    for (const area of areas) {
+      for (const tile of tilesForBounds(area, z)) urls.add(tileUrl(url, tile))
+    }
+  }
+  return [...urls]
+}
+
+export const hasTileCache = () => typeof caches !== 'undefined'
+
+let tileCache: Promise<Cache> | null = null
+export const openTileCache = () => tileCache ??= caches.open(BASE_MAP_CACHE)
+
+// A downloaded tile, or null when it has to come from the network
+export const readCachedTile = async (url: string): Promise<Blob | null> => {
+  if (!hasTileCache()) return null
+  try {
+    const response = await (await openTileCache()).match(url)
+    return response ? await response.blob() : null
+  } catch {
+    return null
+  }
+}
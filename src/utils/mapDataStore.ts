@@ -0,0 +1,267 @@
+// Map data store for VaarApp
+// Overpass data for the map layers is loaded per tile of a fixed slippy-map grid and merged
+// here, one copy per OSM element, so panning adds to what is shown instead of replacing it.
+// Tiles that have not been in view for a while are dropped once the data outgrows its budget.
+
+import { Bounds } from './routing'
+
+export type MapDataLayer = 'waterways' | 'locks' | 'bridges' | 'harbors' | 'gas_stations' | 'slipways'
+
+// Tiles of ~24 km in the Netherlands: one or a few cover the map at the zoom levels data is
+// shown at, and a query for one stays well within Overpass limits
+export const DATA_TILE_ZOOM = 10
+
+// Estimated from the JSON size of the elements; the heap holds a few times more
+export const DEFAULT_MAP_DATA_BUDGET_BYTES = 48 * 1024 * 1024
+
+export interface DataTile {
+  z: number
+  x: number
+  y: number
+  key: string // "z/x/y"
+}
+
+const toRad = (d: number) => d * Math.PI / 180
+
+const tileX = (lng: number, z: number) => Math.floor((lng + 180) / 360 * 2 ** z)
+const tileY = (lat: number, z: number) => {
+  const clamped = Math.max(-85.0511, Math.min(85.0511, lat))
+  return Math.floor((1 - Math.log(Math.tan(toRad(clamped)) + 1 / Math.cos(toRad(clamped))) / Math.PI) / 2 * 2 ** z)
+}
+const tileLat = (y: number, z: number) => Math.atan(Math.sinh(Math.PI * (1 - 2 * y / 2 ** z))) * 180 / Math.PI
+const tileLng = (x: number, z: number) => x / 2 ** z * 360 - 180
+
+export const createTile = (x: number, y: number, z: number = DATA_TILE_ZOOM): DataTile => ({ z, x, y, key: `${z}/${x}/${y}` })
+
+export const tileBounds = (tile: DataTile): Bounds => ({
+  s: tileLat(tile.y + 1, tile.z),
+  w: tileLng(tile.x, tile.z),
+  n: tileLat(tile.y, tile.z),
+  e: tileLng(tile.x + 1, tile.z)
+})
+
+// Tiles covering the bounds, nearest to the centre first so the middle of the map fills in first
+export const tilesForBounds = (bounds: Bounds, z: number = DATA_TILE_ZOOM): DataTile[] => {
+  const x0 = tileX(bounds.w, z), x1 = tileX(bounds.e, z)
+  const y0 = tileY(bounds.n, z), y1 = tileY(bounds.s, z)
+  const cx = (x0 + x1) / 2, cy = (y0 + y1) / 2
+  const tiles: DataTile[] = []
+  for (let x = x0; x <= x1; x++) {
+    for (let y = y0; y <= y1; y++) tiles.push(createTile(x, y, z))
+  }
+  return tiles.sort((a, b) => Math.hypot(a.x - cx, a.y - cy) - Math.hypot(b.x - cx, b.y - cy))
+}
+
+export type PoiLayer = Exclude<MapDataLayer, 'waterways'>
+
+export const POI_LAYERS: PoiLayer[] = ['locks', 'bridges', 'harbors', 'gas_stations', 'slipways']
+
+// Which elements of a combined POI query belong to each layer
+export const POI_LAYER_FILTERS: Record<PoiLayer, (el: any) => boolean> = {
+  locks: (el) =>
+    (el.type === 'node' && el.tags?.waterway === 'lock_gate') ||
+    (el.type === 'way' && el.tags?.waterway === 'lock_gate') ||
+    (el.type === 'node' && el.tags?.lock === 'yes') ||
+    (el.type === 'way' && el.tags?.lock === 'yes') ||
+    (el.type === 'node' && el.tags?.waterway === 'lock') ||
+    (el.type === 'way' && el.tags?.waterway === 'lock'),
+  bridges: (el) =>
+    el.type === 'way' && el.tags?.bridge,
+  harbors: (el) =>
+    el.tags?.leisure === 'marina' ||
+    el.tags?.['seamark:type'] === 'harbour' ||
+    el.tags?.mooring === 'yes' ||
+    el.tags?.harbour ||
+    el.tags?.['seamark:type'] === 'pontoon',
+  gas_stations: (el) =>
+    el.tags?.amenity === 'fuel' ||
+    el.tags?.['seamark:type'] === 'fuel' ||
+    el.tags?.fuel ||
+    el.tags?.['seamark:fuel:type'],
+  slipways: (el) =>
+    el.tags?.leisure === 'slipway' ||
+    el.tags?.waterway === 'slipway' ||
+    el.tags?.['seamark:type'] === 'slipway' ||
+    el.tags?.slipway ||
+    el.tags?.['boat:launching']
+}
+
+// Helper function to create bbox string for Overpass API
+export const bboxString = (bounds: Bounds) =>
+  `${bounds.s.toFixed(6)},${bounds.w.toFixed(6)},${bounds.n.toFixed(6)},${bounds.e.toFixed(6)}`
+
+// Overpass API queries - Focus on navigable waterways only
+export const qWaterways = (bounds: Bounds) => {
+  const bbox = bboxString(bounds)
+  return `[out:json][timeout:60];
+    way["waterway"~"^(canal|river|fairway|shipyard|navigation)$"](${bbox});
+    out tags geom qt;`
+}
+
+// Focused fallback when the main waterways query fails (canals and rivers only)
+export const qWaterwaysFallback = (bounds: Bounds) => `[out:json][timeout:60];
+  way["waterway"~"^(canal|river)$"](${bboxString(bounds)});
+  out tags geom qt;`
+
+// Combined query for multiple POI types (more efficient)
+export const qCombinedPOIs = (bounds: Bounds, types: PoiLayer[]) => {
+  const bbox = bboxString(bounds)
+  let query = `[out:json][timeout:60];(`
+  
+  if (types.includes('locks')) {
+    query += `
+      node["waterway"="lock_gate"](${bbox});
+      way["waterway"="lock_gate"](${bbox});
+      node["lock"="yes"](${bbox});
+      way["lock"="yes"](${bbox});
+      node["waterway"="lock"](${bbox});
+      way["waterway"="lock"](${bbox});`
+  }
+  
+  if (types.includes('bridges')) {
+    query += `
+      way["bridge"]["waterway"](${bbox});
+      way["bridge"]["seamark:type"](${bbox});
+      way["bridge"]["seamark:bridge:category"](${bbox});
+      way["bridge"]["seamark:bridge:movable"](${bbox});
+      way["bridge"]["seamark:bridge:fixed"](${bbox});
+      way["bridge"]["seamark:bridge:opening"](${bbox});`
+  }
+  
+  if (types.includes('harbors')) {
+    query += `
+      node["leisure"="marina"](${bbox});
+      way["leisure"="marina"](${bbox});
+      node["seamark:type"="harbour"]["seamark:harbour:category"~"marina|yacht_harbour"](${bbox});
+      node["tourism"="hotel"]["mooring"="yes"](${bbox});
+      node["mooring"="yes"](${bbox});
+      way["mooring"="yes"](${bbox});
+      node["seamark:type"="pontoon"](${bbox});
+      node["harbour"](${bbox});
+      way["harbour"](${bbox});
+      node["seamark_type"="harbour"](${bbox});`
+  }
+  
+  if (types.includes('gas_stations')) {
+    query += `
+      node["amenity"="fuel"](${bbox});
+      way["amenity"="fuel"](${bbox});
+      node["seamark:type"="fuel"](${bbox});
+      node["fuel"](${bbox});
+      way["fuel"](${bbox});
+      node["seamark:fuel:type"](${bbox});`
+  }
+  
+  if (types.includes('slipways')) {
+    query += `
+      node["leisure"="slipway"](${bbox});
+      way["leisure"="slipway"](${bbox});
+      node["waterway"="slipway"](${bbox});
+      way["waterway"="slipway"](${bbox});
+      node["seamark:type"="slipway"](${bbox});
+      node["slipway"](${bbox});
+      way["slipway"](${bbox});
+      node["boat:launching"](${bbox});
+      way["boat:launching"](${bbox});`
+  }
+  
+  query += `); out tags center qt;`
+  return query
+}
+
+interface StoredElement {
+  element: any
+  bytes: number
+  tiles: Set<string> // Loaded tiles the element came with; dropped when the last one goes
+}
+
+interface LoadedTile {
+  layer: MapDataLayer
+  tile: string
+  keys: string[]
+  lastUsed: number
+}
+
+export const createMapDataStore = (budgetBytes: number = DEFAULT_MAP_DATA_BUDGET_BYTES) => {
+  const layers = new Map<MapDataLayer, Map<string, StoredElement>>()
+  const tiles = new Map<string, LoadedTile>() // By "layer|z/x/y"
+  let visible = new Set<string>() // Tile keys in view, never evicted
+  let bytes = 0
+  let clock = 0 // Orders tile use; a counter, not time, so touches in one tick still differ
+
+  const layerElements = (layer: MapDataLayer) => {
+    let elements = layers.get(layer)
+    if (!elements) layers.set(layer, elements = new Map())
+    return elements
+  }
+
+  const removeTile = (id: string) => {
+    const loaded = tiles.get(id)
+    if (!loaded) return
+    const elements = layerElements(loaded.layer)
+    for (const key of loaded.keys) {
+      const stored = elements.get(key)
+      if (!stored) continue
+      stored.tiles.delete(loaded.tile)
+      if (stored.tiles.size === 0) {
+        elements.delete(key)
+        bytes -= stored.bytes
+      }
+    }
+    tiles.delete(id)
+  }
+
+  // Least recently used tiles out of view go first
+  const evict = () => {
+    if (bytes <= budgetBytes) return
+    const candidates = [...tiles.entries()]
+      .filter(([, loaded]) => !visible.has(loaded.tile))
+      .sort((a, b) => a[1].lastUsed - b[1].lastUsed)
+    for (const [id] of candidates) {
+      if (bytes <= budgetBytes) break
+      removeTile(id)
+    }
+    console.log(`🧹 Map data trimmed to ${(bytes / (1024 * 1024)).toFixed(1)} MB in ${tiles.size} tiles`)
+  }
+
+  const has = (layer: MapDataLayer, tile: string) => tiles.has(`${layer}|${tile}`)
+
+  // Sets the elements of one layer in one tile, replacing what that tile had before (a
+  // refreshed copy from the cache, for instance)
+  const put = (layer: MapDataLayer, tile: string, list: any[]) => {
+    const id = `${layer}|${tile}`
+    removeTile(id)
+    const elements = layerElements(layer)
+    const keys: string[] = []
+    for (const element of list) {
+      const key = `${element.type}/${element.id}`
+      let stored = elements.get(key)
+      if (!stored) {
+        stored = { element, bytes: JSON.stringify(element).length, tiles: new Set() }
+        elements.set(key, stored)
+        bytes += stored.bytes
+      } else {
+        stored.element = element // The newest copy wins
+      }
+      stored.tiles.add(tile)
+      keys.push(key)
+    }
+    tiles.set(id, { layer, tile, keys, lastUsed: ++clock })
+    evict()
+  }
+
+  // Marks the tiles now in view, which keeps them from being evicted
+  const touch = (inView: string[]) => {
+    visible = new Set(inView)
+    const now = ++clock
+    for (const loaded of tiles.values()) {
+      if (visible.has(loaded.tile)) loaded.lastUsed = now
+    }
+  }
+
+  const elements = (layer: MapDataLayer) => [...layerElements(layer).values()].map(stored => stored.element)
+
+  return { has, put, touch, elements, bytes: () => bytes, tileCount: () => tiles.size }
+}
+
+export type MapDataStore = ReturnType<typeof createMapDataStore>
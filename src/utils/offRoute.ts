@@ -0,0 +1,61 @@
+// Off-route detection for VaarApp navigation
+// Decides when the boat has left the route for long enough to plan a new one. GPS
+// jitter near junctions and parallel waterways must not cause a storm of reroutes.
+
+import { NavigationProgress } from './routeTracking'
+
+export const DEFAULT_OFF_ROUTE_METERS = 50
+
+// The boat must stay off the route this long, over at least this many fixes
+const OFF_ROUTE_SUSTAIN_MS = 15000
+const OFF_ROUTE_MIN_FIXES = 3
+
+// Back on the route only once within this fraction of the threshold, so a boat sailing
+// along the threshold does not flip between the states
+const BACK_ON_ROUTE_FRACTION = 0.5
+
+// No new reroute within this time of the previous one
+export const REROUTE_COOLDOWN_MS = 60000
+
+export type OffRouteState = 'on-route' | 'leaving' | 'off-route'
+
+export const createOffRouteDetector = () => {
+  let state: OffRouteState = 'on-route'
+  let leftAt: number | null = null
+  let fixes = 0
+  let lastReroute = -Infinity
+
+  const reset = () => {
+    state = 'on-route'
+    leftAt = null
+    fixes = 0
+  }
+
+  // Inaccurate fixes widen the margin, up to twice the threshold
+  const update = (progress: NavigationProgress, thresholdMeters: number = DEFAULT_OFF_ROUTE_METERS): OffRouteState => {
+    const now = progress.position.timestamp
+    const margin = thresholdMeters + Math.min(progress.position.accuracy ?? 0, thresholdMeters)
+
+    if (progress.arrived || progress.offRouteMeters <= thresholdMeters * BACK_ON_ROUTE_FRACTION) {
+      reset()
+    } else if (progress.offRouteMeters > margin) {
+      leftAt ??= now
+      fixes++
+      state = fixes >= OFF_ROUTE_MIN_FIXES && now - leftAt >= OFF_ROUTE_SUSTAIN_MS ? 'off-route' : 'leaving'
+    }
+    // In between, the state stays as it was
+    return state
+  }
+
+  const mayReroute = (now: number) => state === 'off-route' && now - lastReroute >= REROUTE_COOLDOWN_MS
+
+  // A new route starts the detection over
+  const rerouted = (now: number) => {
+    lastReroute = now
+    reset()
+  }
+
+  return { update, mayReroute, rerouted, reset }
+}
+
+export type OffRouteDetector = ReturnType<typeof createOffRouteDetector>
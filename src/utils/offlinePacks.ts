@@ -0,0 +1,318 @@
+// Offline region packs for VaarApp
+// Everything the map and the router need for a sailing area, downloaded ahead of time:
+// waterways and POIs per data tile and the routing corridor data in IndexedDB, base map
+// tiles in the Cache Storage. The routing data also goes into the routing graph cache, so
+// routes inside a pack are computed without any Overpass request.
+
+import { Bounds, corridorQuery } from './routing'
+import { isCoveredBy } from './routingGraphCache'
+import { mergeIntoRoutingGraphInWorker } from './routingWorkerClient'
+import { overpass } from './overpassClient'
+import {
+  DataTile, POI_LAYERS, POI_LAYER_FILTERS, PoiLayer, bboxString, createTile, qCombinedPOIs, qWaterways, tileBounds,
+  tilesForBounds
+} from './mapDataStore'
+import { baseTileUrls, hasTileCache, openTileCache } from './baseMap'
+
+export interface RegionPack {
+  id: string
+  name: string
+  kind: 'area' | 'route'
+  areas: Bounds[] // Selected rectangle, or boxes along the route
+  dataTiles: string[] // Data tile keys ("z/x/y")
+  mapStyle: string
+  minZoom: number
+  maxZoom: number
+  baseTiles: number // Base map tiles stored
+  bytes: number // Downloaded, data and base map together
+  createdAt: number
+  complete: boolean // False when some tiles failed; downloading again fills the gaps
+}
+
+// Stored per data tile, shared by the packs that cover it
+export interface PackTile {
+  packs: string[]
+  waterways: any[]
+  pois: Record<PoiLayer, any[]>
+  routing: any[] // Corridor elements, as the router fetches them
+}
+
+export interface PackEstimate {
+  dataTiles: number
+  baseTiles: number
+  bytes: number
+}
+
+export interface PackProgress {
+  phase: 'data' | 'tiles'
+  done: number
+  total: number // Steps over both phases
+  bytes: number
+}
+
+export type PackRequest = Pick<RegionPack, 'name' | 'kind' | 'areas' | 'mapStyle' | 'minZoom' | 'maxZoom'>
+
+// Rough averages for the estimate before downloading: a base map tile, and the three
+// Overpass responses of a data tile in an area with canals
+const AVERAGE_BASE_TILE_BYTES = 20 * 1024
+const AVERAGE_DATA_TILE_BYTES = 1.5 * 1024 * 1024
+
+// Beyond this the download takes hours and strains the tile servers
+export const MAX_PACK_BASE_TILES = 25000
+
+// Boxes around a route, this far to each side (~2 km)
+const ROUTE_PAD_DEGREES = 0.02
+// One box per this many degrees along the route (~1 km)
+const ROUTE_SAMPLE_DEGREES = 0.01
+
+const BASE_TILE_CONCURRENCY = 4
+
+const DB_NAME = 'vaarapp-offline'
+const PACKS = 'packs'
+const TILES = 'tiles'
+
+const hasIndexedDB = () => typeof indexedDB !== 'undefined'
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(PACKS)
+    request.result.createObjectStore(TILES)
+  }
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+// Runs fn in one transaction over the store and resolves once it has committed
+const withStore = async <T>(store: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void) => {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(store, mode)
+      const request = fn(transaction.objectStore(store))
+      transaction.oncomplete = () => resolve(request ? request.result : undefined)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+const abortError = () => new DOMException('Pack download cancelled', 'AbortError')
+
+// Boxes along the route, close enough together to overlap
+export const routeAreas = (coordinates: [number, number][]): Bounds[] => {
+  const areas: Bounds[] = []
+  let last: [number, number] | null = null
+  coordinates.forEach((point, i) => {
+    const isEnd = i === coordinates.length - 1
+    if (last && !isEnd && Math.max(Math.abs(point[0] - last[0]), Math.abs(point[1] - last[1])) < ROUTE_SAMPLE_DEGREES) return
+    areas.push({ s: point[0] - ROUTE_PAD_DEGREES, w: point[1] - ROUTE_PAD_DEGREES, n: point[0] + ROUTE_PAD_DEGREES, e: point[1] + ROUTE_PAD_DEGREES })
+    last = point
+  })
+  return areas
+}
+
+export const packDataTiles = (areas: Bounds[]): DataTile[] => {
+  const tiles = new Map<string, DataTile>()
+  for (const area of areas) {
+    for (const tile of tilesForBounds(area)) tiles.set(tile.key, tile)
+  }
+  return [...tiles.values()]
+}
+
+export const estimatePack = (request: Pick<PackRequest, 'areas' | 'mapStyle' | 'minZoom' | 'maxZoom'>): PackEstimate => {
+  const dataTiles = packDataTiles(request.areas).length
+  const baseTiles = baseTileUrls(request.areas, request.mapStyle, request.minZoom, request.maxZoom).length
+  return { dataTiles, baseTiles, bytes: dataTiles * AVERAGE_DATA_TILE_BYTES + baseTiles * AVERAGE_BASE_TILE_BYTES }
+}
+
+export const loadRegionPacks = async (): Promise<RegionPack[]> => {
+  if (!hasIndexedDB()) return []
+  const packs = await withStore<RegionPack[]>(PACKS, 'readonly', store => store.getAll()) || []
+  return packs.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+export const readPackTile = async (key: string): Promise<PackTile | null> => {
+  if (!hasIndexedDB()) return null
+  try {
+    return await withStore<PackTile>(TILES, 'readonly', store => store.get(key)) || null
+  } catch (error) {
+    console.warn('⚠️ Could not read offline pack tile:', error)
+    return null
+  }
+}
+
+// Corridor elements for the bounds from the downloaded packs; null unless the packs cover
+// all of it, so the router never takes a partial answer for a complete one
+export const readPackRouting = async (bounds: Bounds): Promise<any[] | null> => {
+  const keys = [...new Set((await loadRegionPacks()).flatMap(pack => pack.dataTiles))]
+  const covering = keys
+    .map(key => {
+      const [z, x, y] = key.split('/').map(Number)
+      return createTile(x, y, z)
+    })
+    .filter(tile => {
+      const box = tileBounds(tile)
+      return box.s < bounds.n && box.n > bounds.s && box.w < bounds.e && box.e > bounds.w
+    })
+  if (!isCoveredBy(bounds, covering.map(tileBounds))) return null
+
+  const elements = new Map<string, any>()
+  for (const tile of covering) {
+    const stored = await readPackTile(tile.key)
+    if (!stored) return null
+    for (const element of stored.routing) elements.set(`${element.type}/${element.id}`, element)
+  }
+  return [...elements.values()]
+}
+
+// Fetch and store one data tile; its routing data also goes into the routing graph
+const downloadDataTile = async (tile: DataTile, packId: string, signal?: AbortSignal) => {
+  const bounds = tileBounds(tile)
+  const label = `pack ${tile.key}`
+  const [waterways, pois, routing] = await Promise.all([
+    overpass.query(qWaterways(bounds), { key: `waterways:${tile.key}`, label: `${label} waterways`, signal }),
+    overpass.query(qCombinedPOIs(bounds, POI_LAYERS), { key: `pois:${tile.key}`, label: `${label} POIs`, signal }),
+    overpass.query(corridorQuery(bboxString(bounds)), { key: `w:pack:${tile.key}`, label: `${label} routing`, signal })
+  ])
+
+  const existing = await readPackTile(tile.key)
+  const record: PackTile = {
+    packs: [...new Set([...(existing?.packs || []), packId])],
+    waterways: waterways.elements || [],
+    pois: Object.fromEntries(POI_LAYERS.map(layer => [layer, (pois.elements || []).filter(POI_LAYER_FILTERS[layer])])) as Record<PoiLayer, any[]>,
+    routing: routing.elements || []
+  }
+  await withStore(TILES, 'readwrite', store => {
+    store.put(record, tile.key)
+  })
+  await mergeIntoRoutingGraphInWorker(record.routing, bounds)
+  return JSON.stringify(waterways).length + JSON.stringify(pois).length + JSON.stringify(routing).length
+}
+
+// Store one base map tile unless it is there already; returns the bytes stored
+const downloadBaseTile = async (cache: Cache, url: string, signal?: AbortSignal) => {
+  if (await cache.match(url)) return 0
+  const response = await fetch(url, { signal })
+  if (!response.ok) throw new Error(`Tile ${response.status}: ${url}`)
+  const blob = await response.blob()
+  await cache.put(url, new Response(blob, { headers: { 'Content-Type': response.headers.get('Content-Type') || 'image/png' } }))
+  return blob.size
+}
+
+// Download everything for the request. A tile that fails does not stop the download; the
+// pack is then saved as incomplete.
+export const downloadRegionPack = async (
+  request: PackRequest,
+  options: { signal?: AbortSignal, onProgress?: (progress: PackProgress) => void } = {}
+): Promise<RegionPack> => {
+  const { signal, onProgress } = options
+  if (!hasIndexedDB()) throw new Error('Offline packs need IndexedDB, which this browser does not offer')
+
+  const id = `pack_${Date.now()}`
+  const dataTiles = packDataTiles(request.areas)
+  const urls = hasTileCache() ? baseTileUrls(request.areas, request.mapStyle, request.minZoom, request.maxZoom) : []
+  const total = dataTiles.length + urls.length
+  let done = 0, bytes = 0, failed = 0
+  const step = (phase: PackProgress['phase'], added: number) => {
+    done++
+    bytes += added
+    onProgress?.({ phase, done, total, bytes })
+  }
+
+  console.log(`📦 Downloading pack "${request.name}":`, dataTiles.length, 'data tiles,', urls.length, 'base map tiles')
+  onProgress?.({ phase: 'data', done, total, bytes })
+
+  try {
+    // The Overpass client spaces the requests; tiles are fetched one after another so
+    // their data is stored before the next comes in
+    for (const tile of dataTiles) {
+      if (signal?.aborted) throw abortError()
+      try {
+        step('data', await downloadDataTile(tile, id, signal))
+      } catch (error: any) {
+        if (error?.name === 'AbortError') throw error
+        console.warn(`⚠️ Pack data tile ${tile.key} failed:`, error)
+        failed++
+        step('data', 0)
+      }
+    }
+
+    if (urls.length > 0) {
+      const cache = await openTileCache()
+      let next = 0
+      const worker = async () => {
+        while (next < urls.length) {
+          if (signal?.aborted) throw abortError()
+          const url = urls[next++]
+          try {
+            step('tiles', await downloadBaseTile(cache, url, signal))
+          } catch (error: any) {
+            if (error?.name === 'AbortError') throw error
+            failed++
+            step('tiles', 0)
+          }
+        }
+      }
+      await Promise.all(Array.from({ length: BASE_TILE_CONCURRENCY }, worker))
+    }
+  } catch (error) {
+    // No pack record refers to the data tiles stored so far; without this they could never be deleted
+    await releaseDataTiles(dataTiles.map(tile => tile.key), id)
+      .catch(cleanupError => console.warn('⚠️ Could not remove the tiles of the cancelled pack:', cleanupError))
+    throw error
+  }
+
+  const pack: RegionPack = {
+    ...request,
+    id,
+    dataTiles: dataTiles.map(tile => tile.key),
+    baseTiles: urls.length,
+    bytes,
+    createdAt: Date.now(),
+    complete: failed === 0
+  }
+  await withStore(PACKS, 'readwrite', store => {
+    store.put(pack, id)
+  })
+  console.log(`✅ Pack "${pack.name}" saved:`, (bytes / (1024 * 1024)).toFixed(1), 'MB,', failed, 'tiles failed')
+  return pack
+}
+
+// Take a pack off its data tiles, deleting the tiles no other pack uses
+const releaseDataTiles = async (keys: string[], id: string) => {
+  for (const key of keys) {
+    const stored = await readPackTile(key)
+    if (!stored?.packs.includes(id)) continue
+    const remaining = stored.packs.filter(packId => packId !== id)
+    await withStore(TILES, 'readwrite', store => {
+      if (remaining.length > 0) store.put({ ...stored, packs: remaining }, key)
+      else store.delete(key)
+    })
+  }
+}
+
+// Remove a pack, keeping the data tiles and base map tiles other packs still use
+export const deleteRegionPack = async (id: string) => {
+  const packs = await loadRegionPacks()
+  const pack = packs.find(candidate => candidate.id === id)
+  if (!pack) return
+  const others = packs.filter(candidate => candidate.id !== id)
+
+  await releaseDataTiles(pack.dataTiles, id)
+
+  if (hasTileCache()) {
+    const kept = new Set(others.flatMap(other => baseTileUrls(other.areas, other.mapStyle, other.minZoom, other.maxZoom)))
+    const cache = await openTileCache()
+    for (const url of baseTileUrls(pack.areas, pack.mapStyle, pack.minZoom, pack.maxZoom)) {
+      if (!kept.has(url)) await cache.delete(url)
+    }
+  }
+
+  await withStore(PACKS, 'readwrite', store => {
+    store.delete(id)
+  })
+  console.log(`🗑️ Pack "${pack.name}" deleted`)
+}
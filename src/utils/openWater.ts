@@ -0,0 +1,243 @@
+// Open-water routing for VaarApp
+// Lakes, estuaries and fairway areas have no centrelines. Inside their polygons the router
+// uses a visibility graph between shore corners, connected to the waterways reaching them.
+
+import { distanceToSegmentMeters, pointInPolygon, polygonBounds } from './avoidAreas'
+import { closestPointOnSegment } from './spatialIndex'
+
+type LatLng = [number, number]
+
+export interface WaterArea {
+  key: string // `${type}/${id}` of the OSM element
+  name?: string
+  outer: LatLng[][] // Rings as [lat, lng], not closed
+  inner: LatLng[][] // Islands
+  bounds: { s: number, w: number, n: number, e: number }
+}
+
+// Mesh over one water area: vertices and the pairs with a clear straight line between them
+export interface WaterMesh {
+  tolerance: number // Shore simplification in meters the mesh was built with
+  vertices: LatLng[]
+  links: [number, number][]
+}
+
+// Boats keep this far from the shore; mesh vertices and entry points lie this far inside
+export const SHORE_CLEARANCE_METERS = 40
+
+// Waterway ends this close to a water area are connected to it
+export const WATER_ANCHOR_METERS = 200
+
+// Shore simplification. The tolerance doubles until the mesh stays below the vertex cap,
+// so very detailed shores of big lakes still mesh quickly.
+const SIMPLIFY_METERS = 20
+const MAX_MESH_VERTICES = 200
+
+const METERS_PER_DEGREE = 111320
+const WATER_TYPES = ['lake', 'reservoir', 'lagoon', 'oxbow']
+
+const toRad = (d: number) => d * Math.PI / 180
+
+export const isWaterAreaTagged = (tags: Record<string, string> = {}) =>
+  (tags.natural === 'water' && WATER_TYPES.includes(tags.water)) ||
+  tags.place === 'sea' ||
+  tags['seamark:type'] === 'fairway'
+
+const samePoint = (a: LatLng, b: LatLng) => Math.abs(a[0] - b[0]) < 1e-7 && Math.abs(a[1] - b[1]) < 1e-7
+
+// Join multipolygon member ways into closed rings; lines that never close are dropped
+const assembleRings = (lines: LatLng[][]): LatLng[][] => {
+  const rings: LatLng[][] = []
+  const open = lines.filter(line => line.length >= 2)
+  while (open.length > 0) {
+    let ring = open.pop()!
+    let grown = true
+    while (grown && !samePoint(ring[0], ring[ring.length - 1])) {
+      grown = false
+      const end = ring[ring.length - 1]
+      for (let i = 0; i < open.length; i++) {
+        const line = open[i]
+        if (samePoint(line[0], end)) ring = ring.concat(line.slice(1))
+        else if (samePoint(line[line.length - 1], end)) ring = ring.concat(line.slice(0, -1).reverse())
+        else continue
+        open.splice(i, 1)
+        grown = true
+        break
+      }
+    }
+    if (ring.length >= 4 && samePoint(ring[0], ring[ring.length - 1])) rings.push(ring.slice(0, -1))
+  }
+  return rings
+}
+
+// Water area from a closed way or multipolygon relation (Overpass `out geom`)
+export const waterAreaFromElement = (el: any): WaterArea | null => {
+  if (!isWaterAreaTagged(el.tags)) return null
+  const line = (geometry: any[]): LatLng[] => geometry.map((g: any) => [g.lat, g.lon])
+  let outer: LatLng[][] = [], inner: LatLng[][] = []
+  if (el.type === 'way' && el.geometry) {
+    outer = assembleRings([line(el.geometry)])
+  } else if (el.type === 'relation' && el.members) {
+    const ways = (role: string) => el.members
+      .filter((m: any) => m.type === 'way' && m.geometry && (m.role || 'outer') === role)
+      .map((m: any) => line(m.geometry))
+    outer = assembleRings(ways('outer'))
+    inner = assembleRings(ways('inner'))
+  }
+  if (outer.length === 0) return null
+  return { key: `${el.type}/${el.id}`, name: el.tags?.name, outer, inner, bounds: polygonBounds(outer.flat()) }
+}
+
+export const isInWater = (area: WaterArea, p: LatLng) =>
+  area.outer.some(ring => pointInPolygon(p, ring)) && !area.inner.some(ring => pointInPolygon(p, ring))
+
+// Douglas-Peucker on a closed ring
+const simplifyRing = (ring: LatLng[], toleranceMeters: number): LatLng[] => {
+  const line = [...ring, ring[0]]
+  const keep = new Uint8Array(line.length)
+  keep[0] = keep[line.length - 1] = 1
+  const stack: [number, number][] = [[0, line.length - 1]]
+  while (stack.length > 0) {
+    const [i, j] = stack.pop()!
+    let max = 0, index = -1
+    for (let k = i + 1; k < j; k++) {
+      const d = distanceToSegmentMeters(line[k], line[i], line[j])
+      if (d > max) {
+        max = d
+        index = k
+      }
+    }
+    if (index >= 0 && max > toleranceMeters) {
+      keep[index] = 1
+      stack.push([i, index], [index, j])
+    }
+  }
+  const simplified = line.filter((_, k) => keep[k] && k < line.length - 1)
+  return simplified.length >= 3 ? simplified : ring
+}
+
+const simplifyArea = (area: WaterArea, toleranceMeters: number) => ({
+  outer: area.outer.map(ring => simplifyRing(ring, toleranceMeters)),
+  inner: area.inner.map(ring => simplifyRing(ring, toleranceMeters))
+})
+
+// Corners where the shore juts into the water, moved SHORE_CLEARANCE_METERS into it.
+// Shortest paths through a polygon only bend at such corners.
+const shoreCorners = (area: WaterArea, rings: { outer: LatLng[][], inner: LatLng[][] }) => {
+  const k = Math.cos(toRad((area.bounds.s + area.bounds.n) / 2))
+  const toXY = ([lat, lng]: LatLng) => [lng * k * METERS_PER_DEGREE, lat * METERS_PER_DEGREE]
+  const corners: LatLng[] = []
+
+  const visit = (ring: LatLng[], isOuter: boolean) => {
+    const xy = ring.map(toXY)
+    let twiceArea = 0
+    for (let i = 0, j = xy.length - 1; i < xy.length; j = i++) twiceArea += xy[j][0] * xy[i][1] - xy[i][0] * xy[j][1]
+    // Water lies left of the outer ring walked counter-clockwise, right of an island
+    const waterOnLeft = isOuter === twiceArea > 0
+
+    for (let i = 0; i < xy.length; i++) {
+      const p = xy[(i + xy.length - 1) % xy.length], c = xy[i], n = xy[(i + 1) % xy.length]
+      const l1 = Math.hypot(c[0] - p[0], c[1] - p[1]), l2 = Math.hypot(n[0] - c[0], n[1] - c[1])
+      if (!l1 || !l2) continue
+      const u1 = [(c[0] - p[0]) / l1, (c[1] - p[1]) / l1], u2 = [(n[0] - c[0]) / l2, (n[1] - c[1]) / l2]
+      const cross = u1[0] * u2[1] - u1[1] * u2[0]
+      if (waterOnLeft ? cross >= 0 : cross <= 0) continue // The shore bends away from the water here
+
+      // Bisector of the edge normals on the water side
+      const side = waterOnLeft ? 1 : -1
+      const nx = side * (-u1[1] - u2[1]), ny = side * (u1[0] + u2[0])
+      const len = Math.hypot(nx, ny)
+      if (!len) continue
+      const corner: LatLng = [
+        ring[i][0] + ny / len * SHORE_CLEARANCE_METERS / METERS_PER_DEGREE,
+        ring[i][1] + nx / len * SHORE_CLEARANCE_METERS / (METERS_PER_DEGREE * k)
+      ]
+      if (isInWater(area, corner)) corners.push(corner)
+    }
+  }
+
+  rings.outer.forEach(ring => visit(ring, true))
+  rings.inner.forEach(ring => visit(ring, false))
+  return corners
+}
+
+// Do p1-p2 and q1-q2 cross at a single interior point? Touching does not count.
+const properlyCross = (p1: LatLng, p2: LatLng, q1: LatLng, q2: LatLng) => {
+  const orient = (a: LatLng, b: LatLng, c: LatLng) => (b[1] - a[1]) * (c[0] - a[0]) - (b[0] - a[0]) * (c[1] - a[1])
+  return orient(p1, p2, q1) * orient(p1, p2, q2) < 0 && orient(q1, q2, p1) * orient(q1, q2, p2) < 0
+}
+
+// Test for straight lines between two points in the water: true when the line stays in
+// the water, checked against the shore simplified with the mesh tolerance
+export const createShoreCheck = (area: WaterArea, toleranceMeters: number) => {
+  const rings = simplifyArea(area, toleranceMeters)
+  const edges: Array<[LatLng, LatLng, number, number, number, number]> = []
+  for (const ring of [...rings.outer, ...rings.inner]) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[j], b = ring[i]
+      edges.push([a, b, Math.min(a[0], b[0]), Math.max(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[1], b[1])])
+    }
+  }
+
+  return (a: LatLng, b: LatLng) => {
+    const s = Math.min(a[0], b[0]), n = Math.max(a[0], b[0]), w = Math.min(a[1], b[1]), e = Math.max(a[1], b[1])
+    for (const [p, q, es, en, ew, ee] of edges) {
+      if (en < s || es > n || ee < w || ew > e) continue
+      if (properlyCross(a, b, p, q)) return false
+    }
+    // Catches lines slipping out exactly through a shore vertex
+    return isInWater(area, [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2])
+  }
+}
+
+export const createWaterMesh = (area: WaterArea): WaterMesh => {
+  let tolerance = SIMPLIFY_METERS
+  let vertices = shoreCorners(area, simplifyArea(area, tolerance))
+  while (vertices.length > MAX_MESH_VERTICES) {
+    tolerance *= 2
+    vertices = shoreCorners(area, simplifyArea(area, tolerance))
+  }
+
+  const isClear = createShoreCheck(area, tolerance)
+  const links: [number, number][] = []
+  for (let i = 0; i < vertices.length; i++) {
+    for (let j = i + 1; j < vertices.length; j++) {
+      if (isClear(vertices[i], vertices[j])) links.push([i, j])
+    }
+  }
+  console.log(`🌊 Meshed ${area.name || area.key}: ${vertices.length} shore corners, ${links.length} links (shore simplified to ${tolerance} m)`)
+  return { tolerance, vertices, links }
+}
+
+// Where a boat at p gets into the water: p itself when it lies inside the area, otherwise
+// the closest shore point moved SHORE_CLEARANCE_METERS into the water. Null when p is
+// farther than maxMeters from the area.
+export const waterEntryPoint = (area: WaterArea, p: LatLng, maxMeters: number = WATER_ANCHOR_METERS): LatLng | null => {
+  if (isInWater(area, p)) return p
+
+  let best: { a: LatLng, b: LatLng } | null = null
+  let bestMeters = maxMeters
+  for (const ring of [...area.outer, ...area.inner]) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const d = distanceToSegmentMeters(p, ring[j], ring[i])
+      if (d <= bestMeters) {
+        bestMeters = d
+        best = { a: ring[j], b: ring[i] }
+      }
+    }
+  }
+  if (!best) return null
+
+  // Step off the shore on whichever side is water
+  const { point } = closestPointOnSegment(p, best.a, best.b)
+  const k = Math.cos(toRad(point[0]))
+  const dx = (best.b[1] - best.a[1]) * k, dy = best.b[0] - best.a[0]
+  const len = Math.hypot(dx, dy)
+  if (!len) return null
+  const offset = SHORE_CLEARANCE_METERS / METERS_PER_DEGREE / len
+  for (const side of [1, -1]) {
+    const entry: LatLng = [point[0] + side * dx * offset, point[1] - side * dy * offset / k]
+    if (isInWater(area, entry)) return entry
+  }
+  return null
+}
@@ -0,0 +1,198 @@
+// Persistent Overpass response cache for VaarApp
+// Map data is served from IndexedDB straight away. Entries past their freshness are
+// refetched in the background and the caller is handed the new data when it arrives.
+
+import { overpass } from './overpassClient'
+
+// waterways: waterway geometry, changes rarely. structures: locks and bridges, whose status
+// and opening times change more often. facilities: harbours, fuel and slipways.
+export type OverpassDataClass = 'waterways' | 'structures' | 'facilities'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+// Younger than `fresh` an entry is used as is; up to `maxAge` it is used while a new copy is
+// fetched; older it is only used when the network fails
+export const CACHE_TTLS: Record<OverpassDataClass, { fresh: number, maxAge: number }> = {
+  waterways: { fresh: 7 * DAY, maxAge: 60 * DAY },
+  structures: { fresh: 6 * HOUR, maxAge: 14 * DAY },
+  facilities: { fresh: DAY, maxAge: 30 * DAY }
+}
+
+export interface OverpassCacheStats {
+  entries: number
+  bytes: number // Approximate, from the JSON size
+  byClass: Record<OverpassDataClass, { entries: number, bytes: number }>
+  oldest?: number // fetchedAt of the oldest entry
+}
+
+interface CacheEntry {
+  dataClass: OverpassDataClass
+  fetchedAt: number
+  bytes: number
+}
+
+const DB_NAME = 'vaarapp-overpass'
+const ENTRIES = 'entries' // CacheEntry per key, small, for statistics
+const RESPONSES = 'responses' // Response data per key
+
+const revalidating = new Set<string>()
+
+const hasIndexedDB = () => typeof indexedDB !== 'undefined'
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(ENTRIES)
+    request.result.createObjectStore(RESPONSES)
+  }
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+// Runs fn in one transaction over both stores and resolves once it has committed
+const withStores = async <T>(mode: IDBTransactionMode, fn: (entries: IDBObjectStore, responses: IDBObjectStore) => IDBRequest<T> | void) => {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction([ENTRIES, RESPONSES], mode)
+      const request = fn(transaction.objectStore(ENTRIES), transaction.objectStore(RESPONSES))
+      transaction.oncomplete = () => resolve(request ? request.result : undefined)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+const readCached = async (key: string) => {
+  let entry: CacheEntry | undefined
+  const data = await withStores<any>('readonly', (entries, responses) => {
+    const entryRequest = entries.get(key)
+    entryRequest.onsuccess = () => { entry = entryRequest.result }
+    return responses.get(key)
+  })
+  return entry && data !== undefined ? { entry, data } : null
+}
+
+// Entries past their class's maxAge are deleted along with a write, at most this often.
+// Writes only happen with a network connection, so expired copies are not lost while offline.
+const PRUNE_INTERVAL = HOUR
+let lastPruned = 0
+
+const writeCached = (key: string, dataClass: OverpassDataClass, data: any) => {
+  const now = Date.now()
+  const entry: CacheEntry = { dataClass, fetchedAt: now, bytes: JSON.stringify(data).length }
+  const prune = now - lastPruned >= PRUNE_INTERVAL
+  if (prune) lastPruned = now
+  let pruned = 0
+  return withStores('readwrite', (entries, responses) => {
+    entries.put(entry, key)
+    responses.put(data, key)
+    if (!prune) return
+    const cursorRequest = entries.openCursor()
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (!cursor) {
+        if (pruned > 0) console.log(`🗑️ Pruned ${pruned} expired Overpass cache entries`)
+        return
+      }
+      const old: CacheEntry = cursor.value
+      const maxAge = CACHE_TTLS[old.dataClass]?.maxAge ?? 0
+      if (cursor.key !== key && now - old.fetchedAt >= maxAge) {
+        cursor.delete()
+        responses.delete(cursor.key)
+        pruned++
+      }
+      cursor.continue()
+    }
+  })
+}
+
+const fetchAndStore = async (key: string, dataClass: OverpassDataClass, query: string, label: string, signal?: AbortSignal) => {
+  const data = await overpass.query(query, { key, label, signal })
+  if (hasIndexedDB()) {
+    await writeCached(key, dataClass, data).catch(error => console.warn('⚠️ Could not cache Overpass response:', error))
+  }
+  return data
+}
+
+// Overpass data for a query, from the cache when it has a usable copy. `key` names the
+// normalised area and query type; `onRevalidated` gets the new data when a stale copy
+// was served and the refetch brings a newer one.
+export const cachedOverpassQuery = async (
+  dataClass: OverpassDataClass,
+  key: string,
+  query: string,
+  options: { label?: string, signal?: AbortSignal, onRevalidated?: (data: any) => void } = {}
+): Promise<any> => {
+  const { label = key, signal, onRevalidated } = options
+  if (!hasIndexedDB()) return overpass.query(query, { key, label, signal })
+
+  const cached = await readCached(key).catch(error => {
+    console.warn('⚠️ Overpass cache unavailable:', error)
+    return null
+  })
+  const age = cached ? Date.now() - cached.entry.fetchedAt : Infinity
+  const { fresh, maxAge } = CACHE_TTLS[dataClass]
+
+  if (cached && age < maxAge) {
+    if (age >= fresh && !revalidating.has(key)) {
+      console.log(`🔄 ${label}: serving cached copy (${Math.round(age / HOUR)} h old) while refreshing`)
+      revalidating.add(key)
+      fetchAndStore(key, dataClass, query, label)
+        .then(data => onRevalidated?.(data))
+        .catch(error => console.warn(`⚠️ ${label}: refresh failed, keeping the cached copy:`, error))
+        .finally(() => revalidating.delete(key))
+    } else {
+      console.log(`💾 ${label}: served from cache`)
+    }
+    return cached.data
+  }
+
+  try {
+    return await fetchAndStore(key, dataClass, query, label, signal)
+  } catch (error: any) {
+    if (cached && error?.name !== 'AbortError') {
+      console.warn(`⚠️ ${label}: fetch failed, using an expired cached copy`)
+      return cached.data
+    }
+    throw error
+  }
+}
+
+export const getOverpassCacheStats = async (): Promise<OverpassCacheStats> => {
+  const stats: OverpassCacheStats = {
+    entries: 0,
+    bytes: 0,
+    byClass: {
+      waterways: { entries: 0, bytes: 0 },
+      structures: { entries: 0, bytes: 0 },
+      facilities: { entries: 0, bytes: 0 }
+    }
+  }
+  if (!hasIndexedDB()) return stats
+
+  const entries = await withStores<CacheEntry[]>('readonly', (store) => store.getAll()) || []
+  for (const entry of entries) {
+    stats.entries++
+    stats.bytes += entry.bytes
+    const byClass = stats.byClass[entry.dataClass]
+    if (byClass) {
+      byClass.entries++
+      byClass.bytes += entry.bytes
+    }
+    stats.oldest = Math.min(stats.oldest ?? Infinity, entry.fetchedAt)
+  }
+  return stats
+}
+
+export const clearOverpassCache = async () => {
+  if (!hasIndexedDB()) return
+  await withStores('readwrite', (entries, responses) => {
+    entries.clear()
+    responses.clear()
+  })
+  console.log('🗑️ Overpass cache cleared')
+}
@@ -0,0 +1,247 @@
+// Overpass API client for VaarApp
+// One queue for every Overpass request in the app: identical queries in flight share a
+// request, requests are rate limited, and failures move on to the next mirror with backoff
+
+export const DEFAULT_OVERPASS_MIRRORS = [
+  'https://overpass-api.de/api/interpreter',
+  'https://overpass.kumi.systems/api/interpreter',
+  'https://maps.mail.ru/osm/tools/overpass/api/interpreter'
+]
+
+// localStorage key with a JSON array of interpreter URLs replacing the mirror list, e.g.
+// to point the app at a local stand-in server in tests
+export const OVERPASS_MIRRORS_KEY = 'vaarpro_overpass_mirrors'
+
+export interface OverpassClientOptions {
+  mirrors?: string[] // Interpreter URLs, tried in order and rotated on failure
+  maxConcurrent?: number // Requests running at once
+  minIntervalMs?: number // Between the starts of two requests
+  maxAttempts?: number // Per query, over all mirrors
+  backoffMs?: number // First retry delay, doubled per attempt, when the server gives no Retry-After
+  timeoutMs?: number // Per attempt
+  fetch?: typeof fetch
+}
+
+export interface OverpassQueryOptions {
+  key?: string // Identifies the query for coalescing; the query text when absent
+  label?: string // For the logs
+  signal?: AbortSignal // Rejects this caller only; a request shared with others keeps running
+}
+
+// 'rate-limited': 429 from every attempt. 'timeout': no answer in time, or Overpass ran out of
+// time or memory on the query (too large an area). 'bad-query': the server rejected the query.
+// 'server': other HTTP errors. 'network': no connection. 'invalid-response': not Overpass JSON.
+export type OverpassErrorKind = 'rate-limited' | 'timeout' | 'bad-query' | 'server' | 'network' | 'invalid-response'
+
+export interface OverpassError extends Error {
+  name: 'OverpassError'
+  kind: OverpassErrorKind
+  status?: number // HTTP status, when there was a response
+  mirror?: string
+  retryable: boolean
+}
+
+export const createOverpassError = (
+  kind: OverpassErrorKind,
+  message: string,
+  details: { status?: number, mirror?: string, retryable?: boolean } = {}
+): OverpassError => {
+  const error = new Error(message) as OverpassError
+  error.name = 'OverpassError'
+  error.kind = kind
+  error.status = details.status
+  error.mirror = details.mirror
+  error.retryable = details.retryable ?? kind !== 'bad-query'
+  return error
+}
+
+export const isOverpassError = (error: any): error is OverpassError => error?.name === 'OverpassError'
+
+const abortError = () => new DOMException('Overpass request cancelled', 'AbortError')
+
+// Seconds or an HTTP date; null when absent or unreadable
+const parseRetryAfter = (header: string | null, now: number): number | null => {
+  if (!header) return null
+  const seconds = Number(header)
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return isNaN(date) ? null : Math.max(0, date - now)
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+export const createOverpassClient = (options: OverpassClientOptions = {}) => {
+  const mirrors = options.mirrors?.length ? options.mirrors : DEFAULT_OVERPASS_MIRRORS
+  const maxConcurrent = options.maxConcurrent ?? 2
+  const minIntervalMs = options.minIntervalMs ?? 1000
+  const maxAttempts = options.maxAttempts ?? 4
+  const backoffMs = options.backoffMs ?? 2000
+  const timeoutMs = options.timeoutMs ?? 90000
+  const doFetch = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init))
+
+  const inFlight = new Map<string, Promise<any>>()
+  const queue: Array<() => void> = [] // Requests waiting for a slot
+  const blockedUntil = new Map<string, number>() // Per mirror, from Retry-After
+  let active = 0
+  let lastStart = -Infinity
+  let preferred = 0 // Mirror that answered last
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  // Start queued requests while slots are free, spaced by minIntervalMs
+  const pump = () => {
+    if (timer) return
+    while (queue.length > 0 && active < maxConcurrent) {
+      const delay = lastStart + minIntervalMs - Date.now()
+      if (delay > 0) {
+        timer = setTimeout(() => {
+          timer = null
+          pump()
+        }, delay)
+        return
+      }
+      lastStart = Date.now()
+      active++
+      queue.shift()!()
+    }
+  }
+
+  const slot = () => new Promise<void>(resolve => {
+    queue.push(resolve)
+    pump()
+  })
+
+  const release = () => {
+    active--
+    pump()
+  }
+
+  // The next mirror to try: the preferred one first, then in rotation, skipping mirrors that
+  // asked to be left alone for a while
+  const pickMirror = (attempt: number) => {
+    const now = Date.now()
+    let best = (preferred + attempt) % mirrors.length
+    for (let i = 0; i < mirrors.length; i++) {
+      const index = (preferred + attempt + i) % mirrors.length
+      if ((blockedUntil.get(mirrors[index]) ?? 0) <= now) return { index, wait: 0 }
+      if ((blockedUntil.get(mirrors[index]) ?? 0) < (blockedUntil.get(mirrors[best]) ?? 0)) best = index
+    }
+    return { index: best, wait: (blockedUntil.get(mirrors[best]) ?? 0) - now }
+  }
+
+  const attemptOnce = async (query: string, mirror: string): Promise<any> => {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), timeoutMs)
+    let response: Response
+    try {
+      response = await doFetch(mirror, {
+        method: 'POST',
+        body: query,
+        headers: { 'Content-Type': 'text/plain;charset=UTF-8' },
+        signal: controller.signal
+      })
+    } catch (error) {
+      throw controller.signal.aborted
+        ? createOverpassError('timeout', `No answer from ${mirror} within ${timeoutMs / 1000} s`, { mirror })
+        : createOverpassError('network', `Could not reach ${mirror}: ${(error as Error).message}`, { mirror })
+    } finally {
+      clearTimeout(timeout)
+    }
+
+    if (!response.ok) {
+      const status = response.status
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'), Date.now())
+      if (retryAfter !== null) blockedUntil.set(mirror, Date.now() + retryAfter)
+      const text = await response.text().catch(() => '')
+      const kind: OverpassErrorKind = status === 429 ? 'rate-limited'
+        : status === 504 ? 'timeout'
+        : status === 400 ? 'bad-query'
+        : 'server'
+      throw createOverpassError(kind, `Overpass ${status} from ${mirror}${text ? `: ${text.slice(0, 200)}` : ''}`, { status, mirror })
+    }
+
+    let data: any
+    try {
+      data = await response.json()
+    } catch {
+      throw createOverpassError('invalid-response', `Response from ${mirror} is not JSON`, { status: response.status, mirror })
+    }
+    // Overpass reports running out of time or memory with a 200 and a remark. Another try
+    // rarely helps; callers split the area instead.
+    if (typeof data?.remark === 'string' && /runtime error/i.test(data.remark)) {
+      throw createOverpassError('timeout', `Overpass gave up on the query: ${data.remark}`, { status: response.status, mirror, retryable: false })
+    }
+    return data
+  }
+
+  const run = async (query: string, label: string) => {
+    let lastError: OverpassError | null = null
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const { index, wait: blocked } = pickMirror(attempt)
+      const backoff = attempt === 0 ? 0 : backoffMs * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5)
+      const delay = blocked > 0 ? blocked : backoff // A Retry-After from the server wins
+      if (delay > 0) {
+        console.log(`⏳ Overpass ${label}: retrying in ${Math.round(delay / 1000)} s`)
+        await wait(delay)
+      }
+
+      await slot()
+      try {
+        console.log(`🌐 Overpass ${label} via ${mirrors[index]}${attempt ? ` (attempt ${attempt + 1})` : ''}`)
+        const data = await attemptOnce(query, mirrors[index])
+        preferred = index
+        console.log(`✅ Overpass ${label}:`, data.elements?.length || 0, 'elements')
+        return data
+      } catch (error) {
+        lastError = isOverpassError(error) ? error : createOverpassError('network', String(error), { mirror: mirrors[index] })
+        console.warn(`⚠️ Overpass ${label} failed:`, lastError.message)
+        if (!lastError.retryable) break
+      } finally {
+        release()
+      }
+    }
+    throw lastError
+  }
+
+  // Data for an Overpass QL query; throws an OverpassError once every attempt failed
+  const query = (text: string, queryOptions: OverpassQueryOptions = {}): Promise<any> => {
+    const { key = text, label = key.length > 40 ? 'query' : key, signal } = queryOptions
+    if (signal?.aborted) return Promise.reject(abortError())
+    // Without a connection every mirror would fail after the full backoff; callers fall
+    // back to cached or downloaded data straight away instead
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      return Promise.reject(createOverpassError('network', `Overpass ${label}: no network connection`, { retryable: false }))
+    }
+
+    let shared = inFlight.get(key)
+    if (shared) {
+      console.log(`🔗 Overpass ${label}: joining the request in flight`)
+    } else {
+      shared = run(text, label).finally(() => inFlight.delete(key))
+      inFlight.set(key, shared)
+    }
+    if (!signal) return shared
+
+    const request = shared
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(abortError())
+      signal.addEventListener('abort', onAbort, { once: true })
+      request.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+    })
+  }
+
+  return { query, pending: () => queue.length + active }
+}
+
+export type OverpassClient = ReturnType<typeof createOverpassClient>
+
+const configuredMirrors = (): string[] | undefined => {
+  try {
+    const mirrors = JSON.parse(localStorage.getItem(OVERPASS_MIRRORS_KEY) || 'null')
+    return Array.isArray(mirrors) && mirrors.length > 0 ? mirrors : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// The client the app shares, so every page and helper draws from the same rate limit
+export const overpass = createOverpassClient({ mirrors: configuredMirrors() })
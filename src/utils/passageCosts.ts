@@ -0,0 +1,60 @@
+// Passage cost model for VaarApp routing
+// Expected waiting time at movable bridges and locks, plus sailing time at boat speed
+// (capped by waterway speed limits)
+
+import { Obstacle } from './vesselConstraints'
+
+export interface CostModel {
+  speedKmh: number // Cruising speed used for transit time
+  bridgeWaitMinutes: number // Average wait for a movable bridge to open
+  lockWaitMinutes: number // Average wait plus locking time for a lock
+}
+
+export const DEFAULT_BRIDGE_WAIT_MINUTES = 5
+export const DEFAULT_LOCK_WAIT_MINUTES = 15
+
+// Locks whose gates/chambers lie within this distance are treated as one lock
+export const LOCK_CLUSTER_METERS = 300
+
+export const createCostModel = (
+  speedKmh: number,
+  bridgeWaitMinutes: number = DEFAULT_BRIDGE_WAIT_MINUTES,
+  lockWaitMinutes: number = DEFAULT_LOCK_WAIT_MINUTES
+): CostModel => ({ speedKmh, bridgeWaitMinutes, lockWaitMinutes })
+
+export const speedToMps = (speedKmh: number) => speedKmh * 1000 / 3600
+
+// Parse an OSM maxspeed value into km/h: "6", "7.5", "6 knots", "4 mph"
+export const parseSpeed = (value?: string): number | undefined => {
+  if (!value) return undefined
+  const match = value.trim().toLowerCase().match(/^(\d+(?:[.,]\d+)?)\s*(km\/h|kmh|kph|knots|kn|mph)?$/)
+  if (!match) return undefined // "none", "signals", conditional syntax etc.
+  const n = parseFloat(match[1].replace(',', '.'))
+  if (!(n > 0)) return undefined
+  if (match[2] === 'knots' || match[2] === 'kn') return n * 1.852
+  if (match[2] === 'mph') return n * 1.609344
+  return n
+}
+
+// Speed the boat actually sails on a stretch: cruising speed, capped by the limit
+export const effectiveSpeedKmh = (model: CostModel, limitKmh?: number) =>
+  limitKmh !== undefined && limitKmh < model.speedKmh ? limitKmh : model.speedKmh
+
+// Expected wait for passing the whole object, in seconds
+export const obstacleWaitSeconds = (obstacle: Obstacle, model: CostModel) => {
+  if (obstacle.kind === 'lock') return model.lockWaitMinutes * 60
+  if (obstacle.kind === 'bridge' && obstacle.movable) return model.bridgeWaitMinutes * 60
+  return 0
+}
+
+// Wait charged on one edge or node carrying these obstacles. An object spread over
+// several carriers (lock chamber edges, both gates of a lock) charges each a share,
+// so passing all of them adds up to one full wait.
+export const carrierDelaySeconds = (obstacles: Obstacle[] | undefined, model: CostModel) => {
+  if (!obstacles) return 0
+  let delay = 0
+  for (const obstacle of obstacles) {
+    delay += obstacleWaitSeconds(obstacle, model) * (obstacle.passage?.share ?? 1)
+  }
+  return delay
+}
@@ -1,6 +1,8 @@
 // POI (Points of Interest) utilities for VaarApp
 // Handles extraction, organization, and display of POIs along navigation routes
 
+import { SegmentIndex, createSegmentIndex } from './spatialIndex'
+
 export interface POI {
   id: string
   type: 'lock' | 'bridge' | 'harbor' | 'marina' | 'gas_station' | 'report' | 'waypoint' | 'buoy' | 'beacon' | 'light' | 'anchorage' | 'slipway'
@@ -113,6 +115,18 @@ export const extractRoutePOIs = (
     waterway: 'Route Start'
   })
   
+  // Only POIs within the largest tolerance (200m) of the route are checked per segment
+  const near = createRouteProximity(createRouteIndex(routeCoordinates))
+  const nearRoute = (data: any) => data?.elements
+    ? { ...data, elements: data.elements.filter((el: any) => near(el, 200).size > 0) }
+    : data
+  const routeLocks = nearRoute(locksData)
+  const routeBridges = nearRoute(bridgesData)
+  const routeDocks = nearRoute(docksData)
+  const routeGasStations = nearRoute(gasStationsData)
+  const routeBuoys = nearRoute(buoysData)
+  const routeReports = nearRoute(reportsData)
+  
   // Process route coordinates to find POIs
   for (let i = 0; i < routeCoordinates.length - 1; i++) {
     const currentCoord = routeCoordinates[i]
@@ -125,13 +139,14 @@ export const extractRoutePOIs = (
     // Check for POIs near this route segment
     const poisInSegment = findPOIsNearSegment(
       currentCoord,
-      nextCoord,
-      locksData,
-      bridgesData,
-      docksData,
-      gasStationsData,
-      buoysData,
-      reportsData,
+      i,
+      near,
+      routeLocks,
+      routeBridges,
+      routeDocks,
+      routeGasStations,
+      routeBuoys,
+      routeReports,
       totalDistance
     )
     
@@ -175,7 +190,8 @@ export const extractRoutePOIsWithCorridor = async (
   startPoint: [number, number],
   endPoint: [number, number],
   fetchOverpass: (query: string, key: string) => Promise<any>,
-  boatSpeed: number = 8.5
+  boatSpeed: number = 8.5,
+  routeTimes?: number[] // Expected seconds at each route coordinate (speed limits, lock waits)
 ): Promise<RoutePOIs> => {
   console.log('🔍 Extracting POIs along route corridor...')
   
@@ -255,25 +271,15 @@ export const extractRoutePOIsWithCorridor = async (
       console.log('✅ Fetched', poiData.elements.length, 'POIs along route corridor')
       
       // Process POIs and find those near the route
+      const routeIndex = createRouteIndex(routeCoordinates)
+      const routeDistances = cumulativeDistances(routeCoordinates)
       poiData.elements.forEach((poi: any) => {
         const poiCoord = getPOICoordinates(poi)
         if (!poiCoord) return
         
-        // Check if POI is near the route
-        let minDistance = Infinity
-        let closestRoutePoint: [number, number] | null = null
-        
-        for (let i = 0; i < routeCoordinates.length - 1; i++) {
-          const distance = pointToLineDistance(poiCoord, routeCoordinates[i], routeCoordinates[i + 1])
-          if (distance < minDistance) {
-            minDistance = distance
-            closestRoutePoint = routeCoordinates[i]
-          }
-        }
-        
         // Only include POIs within 200m of the route
-        if (minDistance <= 200 && closestRoutePoint) {
-          const distanceFromStart = calculateDistanceAlongRoute(poiCoord, routeCoordinates)
+        if (routeIndex.nearest(poiCoord, 200)) {
+          const distanceFromStart = calculateDistanceAlongRoute(poiCoord, routeCoordinates, routeIndex, routeDistances)
           
           // Determine POI type
           let poiType: POI['type'] = 'waypoint'
@@ -338,10 +344,13 @@ export const extractRoutePOIsWithCorridor = async (
   // Sort POIs by distance from start
   pois.sort((a, b) => a.distance - b.distance)
   
-  // Calculate estimated times for all POIs
+  // Calculate estimated times for all POIs, per edge when the router supplied them
   const speedMps = boatSpeed * 1000 / 3600 // Convert km/h to m/s
+  const secondsAt = routeTimes && routeTimes.length === routeCoordinates.length
+    ? createRouteClock(routeCoordinates, routeTimes)
+    : (distance: number) => distance / speedMps
   pois.forEach(poi => {
-    poi.estimatedTime = Math.round(poi.distance / speedMps / 60) // Convert to minutes
+    poi.estimatedTime = Math.round(secondsAt(poi.distance) / 60) // Convert to minutes
   })
   
   console.log('✅ Extracted', pois.length, 'POIs along route')
@@ -349,38 +358,89 @@ export const extractRoutePOIsWithCorridor = async (
   return {
     pois,
     totalDistance,
-    totalTime: Math.round(totalDistance / speedMps / 60),
+    totalTime: Math.round(secondsAt(totalDistance) / 60),
     startPoint,
     endPoint
   }
 }
 
-// Calculate distance along route for a given point
-const calculateDistanceAlongRoute = (point: [number, number], routeCoordinates: [number, number][]): number => {
-  let totalDistance = 0
-  
+// Spatial index over the route's segments; segment i runs from coordinate i to i + 1
+const createRouteIndex = (routeCoordinates: [number, number][]): SegmentIndex => {
+  const index = createSegmentIndex()
   for (let i = 0; i < routeCoordinates.length - 1; i++) {
-    const segmentStart = routeCoordinates[i]
-    const segmentEnd = routeCoordinates[i + 1]
-    
-    // Check if point is on this segment
-    const distanceToSegment = pointToLineDistance(point, segmentStart, segmentEnd)
-    if (distanceToSegment <= 50) { // Within 50m of segment
-      // Calculate distance from start of route to this point
-      const distanceToStart = haversine(point, segmentStart)
-      return totalDistance + distanceToStart
+    index.add(i, routeCoordinates[i], routeCoordinates[i + 1])
+  }
+  return index
+}
+
+// Route segments within `tolerance` meters of a POI, looked up once per POI and tolerance
+type RouteProximity = (poi: any, tolerance: number) => Set<number>
+
+const createRouteProximity = (routeIndex: SegmentIndex): RouteProximity => {
+  const cache = new Map<any, Map<number, Set<number>>>()
+  return (poi, tolerance) => {
+    let byTolerance = cache.get(poi)
+    if (!byTolerance) {
+      byTolerance = new Map()
+      cache.set(poi, byTolerance)
     }
-    
-    totalDistance += haversine(segmentStart, segmentEnd)
+    let segments = byTolerance.get(tolerance)
+    if (!segments) {
+      const coord = getPOICoordinates(poi)
+      segments = new Set(coord ? routeIndex.kNearest(coord, Infinity, tolerance).map(hit => hit.index) : [])
+      byTolerance.set(tolerance, segments)
+    }
+    return segments
+  }
+}
+
+// Meters from the start of the route to each route coordinate
+const cumulativeDistances = (routeCoordinates: [number, number][]) => {
+  const distances = [0]
+  for (let i = 0; i < routeCoordinates.length - 1; i++) {
+    distances.push(distances[i] + haversine(routeCoordinates[i], routeCoordinates[i + 1]))
+  }
+  return distances
+}
+
+// Expected seconds at a distance along the route, interpolated between route coordinates
+const createRouteClock = (routeCoordinates: [number, number][], routeTimes: number[]) => {
+  const distances = cumulativeDistances(routeCoordinates)
+  
+  return (distance: number) => {
+    let lo = 0, hi = distances.length - 1
+    if (distance >= distances[hi]) return routeTimes[hi]
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1
+      if (distances[mid] <= distance) lo = mid
+      else hi = mid
+    }
+    const span = distances[hi] - distances[lo]
+    const t = span > 0 ? Math.max(0, (distance - distances[lo]) / span) : 0
+    return routeTimes[lo] + t * (routeTimes[hi] - routeTimes[lo])
   }
+}
+
+// Calculate distance along route for a given point: measured on the first route segment
+// within 50m, so a POI passed twice counts at the first passage
+const calculateDistanceAlongRoute = (
+  point: [number, number],
+  routeCoordinates: [number, number][],
+  routeIndex: SegmentIndex,
+  routeDistances: number[]
+): number => {
+  const nearby = routeIndex.kNearest(point, Infinity, 50)
+  if (nearby.length === 0) return routeDistances[routeDistances.length - 1]
   
-  return totalDistance
+  const first = nearby.reduce((a, b) => a.index < b.index ? a : b)
+  return routeDistances[first.index] + haversine(point, routeCoordinates[first.index])
 }
 
 // Find POIs near a route segment
 const findPOIsNearSegment = (
   startCoord: [number, number],
-  endCoord: [number, number],
+  segment: number, // Route segment index, starting at startCoord
+  near: RouteProximity,
   locksData: any,
   bridgesData: any,
   docksData: any,
@@ -394,7 +454,7 @@ const findPOIsNearSegment = (
   // Check locks
   if (locksData?.elements) {
     locksData.elements.forEach((lock: any) => {
-      if (isPOINearSegment(lock, startCoord, endCoord, 50)) { // 50m tolerance
+      if (isPOINearSegment(lock, segment, 50, near)) { // 50m tolerance
         const lockCoord = getPOICoordinates(lock)
         if (lockCoord) {
           const distanceFromStart = accumulatedDistance + haversine(startCoord, lockCoord)
@@ -425,7 +485,7 @@ const findPOIsNearSegment = (
   // Check bridges
   if (bridgesData?.elements) {
     bridgesData.elements.forEach((bridge: any) => {
-      if (isPOINearSegment(bridge, startCoord, endCoord, 50)) { // 50m tolerance
+      if (isPOINearSegment(bridge, segment, 50, near)) { // 50m tolerance
         const bridgeCoord = getPOICoordinates(bridge)
         if (bridgeCoord) {
           const distanceFromStart = accumulatedDistance + haversine(startCoord, bridgeCoord)
@@ -467,7 +527,7 @@ const findPOIsNearSegment = (
   // Check harbors and marinas
   if (docksData?.elements) {
     docksData.elements.forEach((dock: any) => {
-      if (isPOINearSegment(dock, startCoord, endCoord, 100)) { // 100m tolerance for docks
+      if (isPOINearSegment(dock, segment, 100, near)) { // 100m tolerance for docks
         const dockCoord = getPOICoordinates(dock)
         if (dockCoord) {
           const distanceFromStart = accumulatedDistance + haversine(startCoord, dockCoord)
@@ -493,7 +553,7 @@ const findPOIsNearSegment = (
   // Check for buoys, beacons, and lights (marine navigation aids)
   if (docksData?.elements) {
     docksData.elements.forEach((navAid: any) => {
-      if (isPOINearSegment(navAid, startCoord, endCoord, 50)) { // 50m tolerance for navigation aids
+      if (isPOINearSegment(navAid, segment, 50, near)) { // 50m tolerance for navigation aids
         const navCoord = getPOICoordinates(navAid)
         if (navCoord) {
           const distanceFromStart = accumulatedDistance + haversine(startCoord, navCoord)
@@ -535,7 +595,7 @@ const findPOIsNearSegment = (
   // Check gas stations
   if (gasStationsData?.elements) {
     gasStationsData.elements.forEach((gasStation: any) => {
-      if (isPOINearSegment(gasStation, startCoord, endCoord, 200)) { // 200m tolerance for gas stations
+      if (isPOINearSegment(gasStation, segment, 200, near)) { // 200m tolerance for gas stations
         const gasCoord = getPOICoordinates(gasStation)
         if (gasCoord) {
           const distanceFromStart = accumulatedDistance + haversine(startCoord, gasCoord)
@@ -559,7 +619,7 @@ const findPOIsNearSegment = (
   // Check buoys
   if (buoysData?.elements) {
     buoysData.elements.forEach((buoy: any) => {
-      if (isPOINearSegment(buoy, startCoord, endCoord, 100)) { // 100m tolerance for buoys
+      if (isPOINearSegment(buoy, segment, 100, near)) { // 100m tolerance for buoys
         const buoyCoord = getPOICoordinates(buoy)
         if (buoyCoord) {
           const distanceFromStart = accumulatedDistance + haversine(startCoord, buoyCoord)
@@ -586,7 +646,7 @@ const findPOIsNearSegment = (
   // Check for reports (user-submitted alerts and warnings)
   if (reportsData?.elements) {
     reportsData.elements.forEach((report: any) => {
-      if (isPOINearSegment(report, startCoord, endCoord, 200)) { // 200m tolerance for reports
+      if (isPOINearSegment(report, segment, 200, near)) { // 200m tolerance for reports
         const reportCoord = getPOICoordinates(report)
         if (reportCoord) {
           const distanceFromStart = accumulatedDistance + haversine(startCoord, reportCoord)
@@ -620,17 +680,10 @@ const findPOIsNearSegment = (
 // Check if a POI is near a route segment
 const isPOINearSegment = (
   poi: any,
-  startCoord: [number, number],
-  endCoord: [number, number],
-  tolerance: number
-): boolean => {
-  const poiCoord = getPOICoordinates(poi)
-  if (!poiCoord) return false
-  
-  // Calculate distance from POI to line segment
-  const distance = pointToLineDistance(poiCoord, startCoord, endCoord)
-  return distance <= tolerance
-}
+  segment: number,
+  tolerance: number,
+  near: RouteProximity
+): boolean => near(poi, tolerance).has(segment)
 
 // Get coordinates from a POI element
 const getPOICoordinates = (poi: any): [number, number] | null => {
@@ -642,46 +695,6 @@ const getPOICoordinates = (poi: any): [number, number] | null => {
   return null
 }
 
-// Calculate distance from point to line segment
-const pointToLineDistance = (
-  point: [number, number],
-  lineStart: [number, number],
-  lineEnd: [number, number]
-): number => {
-  const [px, py] = point
-  const [x1, y1] = lineStart
-  const [x2, y2] = lineEnd
-  
-  const A = px - x1
-  const B = py - y1
-  const C = x2 - x1
-  const D = y2 - y1
-  
-  const dot = A * C + B * D
-  const lenSq = C * C + D * D
-  
-  let param = -1
-  if (lenSq !== 0) param = dot / lenSq
-  
-  let xx, yy
-  
-  if (param < 0) {
-    xx = x1
-    yy = y1
-  } else if (param > 1) {
-    xx = x2
-    yy = y2
-  } else {
-    xx = x1 + param * C
-    yy = y1 + param * D
-  }
-  
-  const dx = px - xx
-  const dy = py - yy
-  
-  return Math.sqrt(dx * dx + dy * dy) * 111000 // Convert to meters (approximate)
-}
-
 // Get lock status from tags
 const getLockStatus = (tags: Record<string, string>): 'open' | 'closed' | 'unknown' => {
   if (tags.lock_status === 'open' || tags.status === 'open') return 'open'
@@ -768,6 +781,22 @@ export const formatTime = (minutes: number): string => {
   }
 }
 
+// Format a timestamp (ms since epoch) as a local clock time, e.g. for ETAs
+export const formatClock = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+
+// Format a speed in m/s in the chosen speed units ('knots', 'kmh' or 'mph')
+export const formatSpeed = (metersPerSecond: number, units: string = 'knots'): string => {
+  if (units === 'kmh') return `${(metersPerSecond * 3.6).toFixed(1)} km/h`
+  if (units === 'mph') return `${(metersPerSecond * 2.23694).toFixed(1)} mph`
+  return `${(metersPerSecond * 1.94384).toFixed(1)} kn`
+}
+
+// Format a storage size
+export const formatBytes = (bytes: number): string => bytes >= 1024 * 1024
+  ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  : `${Math.round(bytes / 1024)} KB`
+
 // Get POI icon based on type and status
 export const getPOIIcon = (poi: POI): string => {
   if (poi.type === 'lock') {
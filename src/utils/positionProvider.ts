@@ -0,0 +1,198 @@
+// Position providers for VaarApp navigation
+// Continuous boat positions from the device GPS, a recorded track replayed for testing, or
+// a virtual boat sailing the route for demos
+
+export interface BoatPosition {
+  lat: number
+  lng: number
+  heading?: number // Degrees clockwise from north, when known
+  speed?: number // Meters per second, when known
+  accuracy?: number // Meters
+  timestamp: number // ms since epoch
+}
+
+export interface PositionProvider {
+  kind: 'gps' | 'replay' | 'simulation'
+  start: (onPosition: (position: BoatPosition) => void, onError?: (message: string) => void) => void
+  stop: () => void
+}
+
+// Below this speed the GPS heading is noise; the last good heading is kept instead
+const MIN_HEADING_SPEED_MPS = 0.5
+
+const toRad = (d: number) => d * Math.PI / 180
+
+export const bearingBetween = (a: [number, number], b: [number, number]) => {
+  const y = Math.sin(toRad(b[1] - a[1])) * Math.cos(toRad(b[0]))
+  const x = Math.cos(toRad(a[0])) * Math.sin(toRad(b[0])) -
+    Math.sin(toRad(a[0])) * Math.cos(toRad(b[0])) * Math.cos(toRad(b[1] - a[1]))
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360
+}
+
+const distanceMeters = (a: [number, number], b: [number, number]) => {
+  const dLat = toRad(b[0] - a[0]), dLon = toRad(b[1] - a[1])
+  const s = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a[0])) * Math.cos(toRad(b[0])) * Math.sin(dLon / 2) ** 2
+  return 2 * 6371000 * Math.asin(Math.sqrt(s))
+}
+
+// Device GPS through watchPosition. Browsers without a heading (or standing still) get
+// one from the movement between fixes.
+export const createGeolocationProvider = (options: PositionOptions = {}): PositionProvider => {
+  let watchId: number | null = null
+  let previous: BoatPosition | null = null
+
+  return {
+    kind: 'gps',
+    start: (onPosition, onError) => {
+      if (!navigator.geolocation) {
+        onError?.('Geolocation is not supported by this browser.')
+        return
+      }
+      watchId = navigator.geolocation.watchPosition(
+        ({ coords, timestamp }) => {
+          const position: BoatPosition = {
+            lat: coords.latitude,
+            lng: coords.longitude,
+            speed: coords.speed ?? undefined,
+            accuracy: coords.accuracy,
+            timestamp
+          }
+          const moving = (coords.speed ?? 0) >= MIN_HEADING_SPEED_MPS
+          if (coords.heading !== null && !isNaN(coords.heading) && moving) {
+            position.heading = coords.heading
+          } else if (previous && distanceMeters([previous.lat, previous.lng], [position.lat, position.lng]) > Math.max(5, coords.accuracy / 2)) {
+            position.heading = bearingBetween([previous.lat, previous.lng], [position.lat, position.lng])
+          } else {
+            position.heading = previous?.heading
+          }
+          if (position.speed === undefined && previous && timestamp > previous.timestamp) {
+            position.speed = distanceMeters([previous.lat, previous.lng], [position.lat, position.lng]) / ((timestamp - previous.timestamp) / 1000)
+          }
+          previous = position
+          onPosition(position)
+        },
+        (error) => {
+          console.error('❌ Geolocation error:', error)
+          onError?.(error.code === error.PERMISSION_DENIED
+            ? 'Location permission denied. Please allow location access to follow the boat.'
+            : 'Unable to get your location.')
+        },
+        { enableHighAccuracy: true, maximumAge: 1000, timeout: 20000, ...options }
+      )
+      console.log('📡 GPS tracking started')
+    },
+    stop: () => {
+      if (watchId !== null) navigator.geolocation.clearWatch(watchId)
+      watchId = null
+      previous = null
+      console.log('📡 GPS tracking stopped')
+    }
+  }
+}
+
+// Recorded fixes replayed with their original spacing in time (divided by `speedup`)
+export const createReplayProvider = (track: BoatPosition[], speedup: number = 1): PositionProvider => {
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  return {
+    kind: 'replay',
+    start: (onPosition) => {
+      let i = 0
+      const startedAt = Date.now()
+      const emit = () => {
+        const fix = track[i]
+        // Timestamps are moved to now, so ETAs computed from them stay meaningful
+        onPosition({ ...fix, timestamp: startedAt + (fix.timestamp - track[0].timestamp) / speedup })
+        i++
+        timer = i < track.length ? setTimeout(emit, (track[i].timestamp - fix.timestamp) / speedup) : null
+      }
+      if (track.length > 0) emit()
+      console.log('📼 Replaying', track.length, 'positions')
+    },
+    stop: () => {
+      if (timer) clearTimeout(timer)
+      timer = null
+    }
+  }
+}
+
+// A virtual boat sailing the route, controllable while it runs
+export interface SimulationProvider extends PositionProvider {
+  setSpeedup: (speedup: number) => void
+  setPaused: (paused: boolean) => void
+  setDrift: (meters: number) => void // Sideways offset to starboard, to test off-route handling
+}
+
+// Real time between simulated fixes; each covers `speedup` times as much simulated time
+const SIMULATION_TICK_MS = 500
+
+// Sails coordinates at speedKmh on a simulated clock starting at startTime. Timestamps follow
+// the simulated clock, so ETAs and off-route timing behave as on a real trip, only faster.
+export const createSimulationProvider = (
+  coordinates: [number, number][],
+  speedKmh: number,
+  speedup: number = 1,
+  startTime: number = Date.now()
+): SimulationProvider => {
+  const along = [0]
+  for (let i = 1; i < coordinates.length; i++) along.push(along[i - 1] + distanceMeters(coordinates[i - 1], coordinates[i]))
+  const total = along[along.length - 1] || 0
+  const speed = Math.max(1, speedKmh) / 3.6
+
+  let timer: ReturnType<typeof setInterval> | null = null
+  let travelled = 0
+  let clock = startTime
+  let segment = 0
+  let paused = false
+  let drift = 0
+
+  const positionAt = (distance: number): BoatPosition => {
+    while (segment < coordinates.length - 2 && along[segment + 1] < distance) segment++
+    const a = coordinates[segment], b = coordinates[Math.min(segment + 1, coordinates.length - 1)]
+    const length = along[segment + 1] - along[segment] || 0
+    const t = length ? Math.min(1, (distance - along[segment]) / length) : 0
+    const heading = bearingBetween(a, b)
+    const lat = a[0] + (b[0] - a[0]) * t
+    const lng = a[1] + (b[1] - a[1]) * t
+    const side = toRad(heading + 90)
+    return {
+      lat: lat + drift * Math.cos(side) / 111320,
+      lng: lng + drift * Math.sin(side) / (111320 * Math.cos(toRad(lat))),
+      heading,
+      speed: distance < total ? speed : 0,
+      accuracy: 5,
+      timestamp: clock
+    }
+  }
+
+  const stop = () => {
+    if (timer) clearInterval(timer)
+    timer = null
+  }
+
+  return {
+    kind: 'simulation',
+    start: (onPosition) => {
+      if (coordinates.length === 0) return
+      onPosition(positionAt(0))
+      timer = setInterval(() => {
+        if (paused) return
+        clock += SIMULATION_TICK_MS * speedup
+        travelled = Math.min(total, travelled + speed * SIMULATION_TICK_MS / 1000 * speedup)
+        onPosition(positionAt(travelled))
+        if (travelled >= total) stop()
+      }, SIMULATION_TICK_MS)
+      console.log('🎮 Simulating', (total / 1000).toFixed(1), 'km at', speedKmh, 'km/h,', speedup + 'x')
+    },
+    stop,
+    setSpeedup: (value) => {
+      speedup = value
+    },
+    setPaused: (value) => {
+      paused = value
+    },
+    setDrift: (meters) => {
+      drift = meters
+    }
+  }
+}
@@ -0,0 +1,117 @@
+// Live route progress for VaarApp navigation
+// Projects boat positions onto the route for remaining distance, ETA and the current step
+
+import { haversine, RouteStep } from './routing'
+import { BoatPosition } from './positionProvider'
+import { closestPointOnSegment } from './spatialIndex'
+
+export interface NavigationProgress {
+  position: BoatPosition
+  snapped: [number, number] // Closest point on the route
+  segment: number // Route segment the boat is on (index of its first coordinate)
+  offRouteMeters: number // Distance from the route line
+  travelled: number // Meters along the route
+  remainingDistance: number // Meters
+  remainingSeconds: number // Planned sailing time from here, waits included
+  eta: number // ms since epoch
+  step: number // Index of the current step
+  stepRemaining: number // Meters to the end of the current step
+  arrived: boolean
+}
+
+// What the tracker needs from a route; saved routes from older versions lack `times`
+export interface TrackedRoute {
+  coordinates: [number, number][]
+  steps: RouteStep[]
+  times?: number[] // Cumulative planned seconds per coordinate
+  totalTime: number // Minutes
+}
+
+// The projection first looks this far ahead of the last known segment, so a route that
+// passes the same water twice does not jump to its other pass
+const SEARCH_AHEAD_METERS = 2000
+// Farther from the route than this, the whole route is searched
+const LOCAL_MATCH_METERS = 100
+// A step is done once the boat is this close to its end
+const STEP_DONE_METERS = 10
+export const ARRIVAL_METERS = 25
+
+export const createRouteTracker = (route: TrackedRoute) => {
+  const { coordinates, steps } = route
+  const along = [0]
+  for (let i = 1; i < coordinates.length; i++) along.push(along[i - 1] + haversine(coordinates[i - 1], coordinates[i]))
+  const total = along[along.length - 1] || 0
+
+  const stepEnds: number[] = []
+  steps.reduce((end, step) => {
+    stepEnds.push(end + step.distance)
+    return end + step.distance
+  }, 0)
+
+  const times = route.times && route.times.length === coordinates.length ? route.times : null
+  const totalSeconds = times ? times[times.length - 1] : route.totalTime * 60
+  const timeAt = (segment: number, t: number) => times
+    ? times[segment] + ((times[segment + 1] ?? times[segment]) - times[segment]) * t
+    : total ? totalSeconds * (along[segment] + (along[segment + 1] - along[segment] || 0) * t) / total : 0
+
+  let lastSegment = 0
+  let lastTravelled = 0
+  let lastStep = 0
+
+  const match = (point: [number, number], from: number, to: number) => {
+    let best = { segment: from, t: 0, snapped: coordinates[from], distance: Infinity }
+    for (let i = from; i < to; i++) {
+      const { point: snapped, t } = closestPointOnSegment(point, coordinates[i], coordinates[i + 1])
+      const distance = haversine(point, snapped)
+      if (distance < best.distance) best = { segment: i, t, snapped, distance }
+    }
+    return best
+  }
+
+  const update = (position: BoatPosition): NavigationProgress => {
+    const point: [number, number] = [position.lat, position.lng]
+    let best = { segment: 0, t: 0, snapped: coordinates[0] || point, distance: coordinates.length ? haversine(point, coordinates[0]) : 0 }
+
+    if (coordinates.length >= 2) {
+      const from = Math.max(0, lastSegment - 2)
+      let to = from
+      while (to < coordinates.length - 1 && along[to] - lastTravelled < SEARCH_AHEAD_METERS) to++
+      best = match(point, from, to)
+      if (best.distance > LOCAL_MATCH_METERS) {
+        const global = match(point, 0, coordinates.length - 1)
+        if (global.distance < best.distance) best = global
+      }
+      lastSegment = best.segment
+    }
+
+    const travelled = coordinates.length >= 2
+      ? along[best.segment] + haversine(coordinates[best.segment], best.snapped)
+      : 0
+    lastTravelled = travelled
+    const remainingDistance = Math.max(0, total - travelled)
+    const remainingSeconds = Math.max(0, totalSeconds - timeAt(best.segment, best.t))
+
+    // Steps only move forward, so GPS jitter around a manoeuvre does not flip back
+    let step = lastStep
+    while (step < steps.length - 1 && travelled >= stepEnds[step] - STEP_DONE_METERS) step++
+    lastStep = step
+
+    return {
+      position,
+      snapped: best.snapped,
+      segment: best.segment,
+      offRouteMeters: best.distance,
+      travelled,
+      remainingDistance,
+      remainingSeconds,
+      eta: position.timestamp + remainingSeconds * 1000,
+      step,
+      stepRemaining: Math.max(0, (stepEnds[step] ?? total) - travelled),
+      arrived: remainingDistance < ARRIVAL_METERS
+    }
+  }
+
+  return { update }
+}
+
+export type RouteTracker = ReturnType<typeof createRouteTracker>
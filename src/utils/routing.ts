@@ -1,5 +1,23 @@
 // Routing utilities for VaarApp - EXACTLY matching the working HTML version
 
+import {
+  BoatProfile, ConstraintViolation, Obstacle, describeViolation, findViolation,
+  isBridgeTagged, isLockTagged, obstacleFromElement
+} from './vesselConstraints'
+import {
+  CostModel, LOCK_CLUSTER_METERS, carrierDelaySeconds, createCostModel, effectiveSpeedKmh,
+  obstacleWaitSeconds, parseSpeed, speedToMps
+} from './passageCosts'
+import { SegmentIndex, createSegmentIndex } from './spatialIndex'
+import { WaterwayAccess, dependsOnVesselSize, extractAccess, hasConditionalAccess, isAccessAllowed, isShipLength } from './waterwayAccess'
+import {
+  WATER_ANCHOR_METERS, WaterArea, createShoreCheck, createWaterMesh, waterAreaFromElement, waterEntryPoint
+} from './openWater'
+import {
+  AVOID_PENALTY, AVOID_RADIUS_METERS, AvoidSet, distanceToSegmentMeters, isAvoidSetEmpty,
+  isObjectAvoided, polygonBounds, segmentTouchesPolygon, segmentsIntersect
+} from './avoidAreas'
+
 // Earth's radius in meters
 const R = 6371000
 const toRad = (d: number) => d * Math.PI / 180
@@ -23,18 +41,106 @@ export const nearestPointOnSegment = (p: [number, number], a: [number, number],
   return [Q[1], Q[0], t] // Return [lat, lon, t]
 }
 
+// Progress reported while a route is being calculated
+export interface RouteProgress {
+  phase: 'fetching' | 'graph' | 'search'
+  fraction: number // 0..1 within the phase
+  expanded?: number // Nodes expanded so far (search phase)
+  leg?: number // 0-based leg being calculated on multi-stop routes
+  legs?: number
+}
+
+// Structured-clone friendly routing parameters (sent to the routing worker as-is)
+export interface RouteParams {
+  profile?: BoatProfile // Edges the boat cannot pass are excluded when set
+  costModel?: CostModel // Minimise expected travel time instead of distance when set
+  departure?: number // Planned departure (ms since epoch) for conditional access restrictions
+  alternatives?: number // Also look for up to this many clearly different alternative routes
+  avoid?: AvoidSet // Areas and locks/bridges to stay away from if at all possible
+  region?: Bounds // Area the elements were fetched for completely, remembered by the graph cache
+  gapToleranceMeters?: number // Link dangling way ends this close to other waterways (default DEFAULT_GAP_TOLERANCE_METERS)
+}
+
+export interface Bounds {
+  s: number
+  w: number
+  n: number
+  e: number
+}
+
+export interface RouteComputeOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: RouteProgress) => void
+  params?: RouteParams
+  // Supplies the graph for the elements; a fresh one per request unless a long-lived
+  // cache is passed (see routingGraphCache)
+  graphFor?: (elements: any[], options: RouteComputeOptions) => Promise<Graph>
+}
+
+// Same error shape fetch() uses, so callers can check err.name === 'AbortError'
+export const createAbortError = () => new DOMException('Route calculation cancelled', 'AbortError')
+
+// Raised when a route exists but every variant is blocked by the boat dimensions
+export const createRouteBlockedError = (violations: ConstraintViolation[]) => {
+  const error = new Error(`No passable route for this boat. Blocked by:\n${violations.map(describeViolation).join('\n')}`)
+  error.name = 'RouteBlockedError'
+  return error
+}
+
+// Raised when start and destination snap to waterway networks without any connection
+export const createUnconnectedNetworksError = () => {
+  const error = new Error('Start and destination are on unconnected waterway networks. Try points on the same waterway network, or pan the map so the connecting waterways are loaded.')
+  error.name = 'UnconnectedNetworksError'
+  return error
+}
+
 // Graph structure - EXACTLY matching the working HTML version
+export interface GraphSegment {
+  a: [number, number]
+  b: [number, number]
+  idA: number
+  idB: number
+  wayId?: number
+  name?: string // Waterway name from the OSM way
+  ref?: string // Waterway reference (e.g. a fairway number) from the OSM way
+  maxSpeed?: number // Speed limit in km/h from the way's maxspeed tag
+  oneway?: 1 | -1 // Only navigable from a to b (1) or from b to a (-1)
+  access?: WaterwayAccess // Set when access depends on the departure time (*:conditional)
+  obstacles?: Obstacle[] // Bridges, lock chambers or tagged stretches restricting this edge
+  gap?: boolean // Added by gap repair between ways that do not share a node in OSM
+  openWater?: boolean // Straight line across a lake or other water area
+}
+
 export interface Graph {
   nextId: number
   nodes: Map<string, number>
   coords: Map<number, [number, number]>
-  adj: Map<number, [number, number][]> // [idB, distance] pairs exactly like HTML
-  segments: Array<{a: [number, number], b: [number, number], idA: number, idB: number}>
+  adj: Map<number, [number, number, number][]> // [idB, distance, segment index] like HTML plus the edge
+  segments: GraphSegment[]
+  nodeObstacles: Map<number, Obstacle[]> // Lock gates / bridges sitting on a waterway node
+  index: SegmentIndex // Grid over segments for snapping and nearby-edge lookups, filled by graphAddEdge
+}
+
+// Read-only lookups used by path search and evaluation. A Graph is one; createSnapView
+// overlays query-time virtual nodes on a shared graph without modifying it.
+export interface GraphLookup<V> {
+  get(id: number): V | undefined
+  has(id: number): boolean
+}
+
+export interface GraphView {
+  nextId: number // Upper bound on node ids, virtual nodes included
+  coords: GraphLookup<[number, number]>
+  adj: GraphLookup<[number, number, number][]>
+  segments: GraphSegment[]
+  nodeObstacles: Map<number, Obstacle[]>
 }
 
+const nodeKey = (lat: number, lon: number) => `${lat.toFixed(6)},${lon.toFixed(6)}`
+
 // Add node to graph - EXACTLY like HTML version
 export const graphAddNode = (lat: number, lon: number, graph: Graph) => {
-  const key = `${lat.toFixed(6)},${lon.toFixed(6)}`
+  const key = nodeKey(lat, lon)
   if (graph.nodes.has(key)) return graph.nodes.get(key)!
   
   const id = graph.nextId++
@@ -44,42 +150,392 @@ export const graphAddNode = (lat: number, lon: number, graph: Graph) => {
   return id
 }
 
-// Add edge to graph - EXACTLY like HTML version
-export const graphAddEdge = (idA: number, idB: number, graph: Graph) => {
+// Add edge to graph - EXACTLY like HTML version, returns the segment index.
+// One-way edges are only added to the adjacency of the node they can be entered from.
+export const graphAddEdge = (idA: number, idB: number, graph: Graph, wayId?: number, oneway?: 1 | -1) => {
   const a = graph.coords.get(idA)!, b = graph.coords.get(idB)!
   const d = haversine(a, b)
-  graph.adj.get(idA)!.push([idB, d])
-  graph.adj.get(idB)!.push([idA, d])
-  graph.segments.push({ a, b, idA, idB })
+  const index = graph.segments.length
+  if (oneway !== -1) graph.adj.get(idA)!.push([idB, d, index])
+  if (oneway !== 1) graph.adj.get(idB)!.push([idA, d, index])
+  graph.segments.push(oneway ? { a, b, idA, idB, wayId, oneway } : { a, b, idA, idB, wayId })
+  graph.index.add(index, a, b)
+  return index
+}
+
+// Direction from the OSM oneway tag, relative to the way's node order
+const parseOneway = (value?: string): 1 | -1 | undefined =>
+  value === 'yes' || value === 'true' || value === '1' ? 1 :
+  value === '-1' || value === 'reverse' ? -1 : undefined
+
+const addSegmentObstacle = (segment: GraphSegment, obstacle: Obstacle) => {
+  if (!segment.obstacles) segment.obstacles = []
+  if (!segment.obstacles.includes(obstacle)) segment.obstacles.push(obstacle)
 }
 
+// Attach lock/bridge elements from the corridor data to the graph they restrict.
+// `carriers` already counts the edges of lock-chamber and tagged waterway ways.
+// Returns the elements that are not on any loaded waterway (yet).
+const attachObstacles = (graph: Graph, obstacleNodes: any[], bridgeWays: any[], carriers: Map<Obstacle, number>) => {
+  const pendingNodes: any[] = []
+  const pendingBridges: any[] = []
+  let attached = 0
+  for (const el of obstacleNodes) {
+    const obstacle = obstacleFromElement(el, isLockTagged(el.tags) ? 'lock' : 'bridge')
+    if (!obstacle) continue
+
+    // Lock gates and seamark bridges normally share a node with the waterway
+    const id = graph.nodes.get(nodeKey(el.lat, el.lon))
+    if (id !== undefined) {
+      if (!graph.nodeObstacles.has(id)) graph.nodeObstacles.set(id, [])
+      graph.nodeObstacles.get(id)!.push(obstacle)
+      carriers.set(obstacle, 1)
+      attached++
+      continue
+    }
+
+    // Otherwise attach to the closest edge within 25 m
+    const closest = graph.index.nearest([el.lat, el.lon], 25)
+    if (closest) {
+      addSegmentObstacle(graph.segments[closest.index], obstacle)
+      carriers.set(obstacle, 1)
+      attached++
+    } else {
+      pendingNodes.push(el)
+    }
+  }
+
+  // Bridge ways cross the waterway rather than share a node with it
+  for (const el of bridgeWays) {
+    const obstacle = obstacleFromElement(el, 'bridge')
+    if (!obstacle) continue
+    const pts: [number, number][] = el.geometry.map((g: any) => [g.lat, g.lon])
+    let hits = 0
+    for (let i = 0; i < pts.length - 1; i++) {
+      for (const index of graph.index.candidates(pts[i], pts[i + 1])) {
+        const seg = graph.segments[index]
+        if (segmentsIntersect(pts[i], pts[i + 1], seg.a, seg.b)) {
+          addSegmentObstacle(seg, obstacle)
+          hits++
+        }
+      }
+    }
+    if (hits > 0) {
+      carriers.set(obstacle, hits)
+      attached++
+    } else {
+      pendingBridges.push(el)
+    }
+  }
+
+  assignPassageGroups(carriers)
+  console.log(`🌉 Attached ${attached} of ${obstacleNodes.length + bridgeWays.length} bridges/locks to the graph`)
+  return { pendingNodes, pendingBridges }
+}
+
+// Group the gates and chamber of one lock together and split each object's passage
+// delay over its carriers, so a full passage costs exactly one wait
+const assignPassageGroups = (carriers: Map<Obstacle, number>) => {
+  const locks = [...carriers.keys()].filter(o => o.kind === 'lock')
+  const groupOf = new Map<Obstacle, Obstacle[]>()
+
+  for (const lock of locks) {
+    let group: Obstacle[] | undefined
+    for (const other of locks) {
+      if (other === lock || !groupOf.has(other)) continue
+      if (haversine(lock.at, other.at) <= LOCK_CLUSTER_METERS) {
+        group = groupOf.get(other)
+        break
+      }
+    }
+    if (!group) group = []
+    group.push(lock)
+    groupOf.set(lock, group)
+  }
+
+  for (const [obstacle, count] of carriers) {
+    const group = groupOf.get(obstacle) || [obstacle]
+    const total = group.reduce((sum, o) => sum + (carriers.get(o) || 1), 0)
+    obstacle.passage = { group: `${group[0].kind}:${group[0].osmType}/${group[0].osmId}`, share: count > 0 ? 1 / total : 0 }
+  }
+}
+
+// Dangling way ends closer than this to another waterway are linked to it. OSM often
+// leaves a few metres between a canal and the lock, basin or river it runs into.
+export const DEFAULT_GAP_TOLERANCE_METERS = 15
+
+// Segments per node, plus one of them for each node
+const nodeDegrees = (graph: Graph) => {
+  const degree = new Map<number, number>()
+  const incident = new Map<number, number>()
+  graph.segments.forEach((seg, index) => {
+    for (const id of [seg.idA, seg.idB]) {
+      degree.set(id, (degree.get(id) || 0) + 1)
+      incident.set(id, index)
+    }
+  })
+  return { degree, incident }
+}
+
+// Split a segment at a point on it. The segment keeps its index for the a-side half and
+// the b-side half is added as a new segment with the same attributes. Returns the node.
+const splitSegment = (graph: Graph, index: number, point: [number, number], carriers: Map<Obstacle, number>) => {
+  const seg = graph.segments[index]
+  const id = graphAddNode(point[0], point[1], graph)
+  if (id === seg.idA || id === seg.idB) return id
+
+  const { idA, idB, oneway } = seg
+  const d = haversine(seg.a, graph.coords.get(id)!)
+  for (const entry of graph.adj.get(idA)!) {
+    if (entry[2] === index) {
+      entry[0] = id
+      entry[1] = d
+    }
+  }
+  graph.adj.set(idB, graph.adj.get(idB)!.filter(entry => entry[2] !== index))
+  if (oneway !== 1) graph.adj.get(id)!.push([idA, d, index])
+  seg.b = graph.coords.get(id)!
+  seg.idB = id
+  graph.index.add(index, seg.a, seg.b)
+
+  const rest = graph.segments[graphAddEdge(id, idB, graph, seg.wayId, oneway)]
+  if (seg.name !== undefined) rest.name = seg.name
+  if (seg.ref !== undefined) rest.ref = seg.ref
+  if (seg.maxSpeed !== undefined) rest.maxSpeed = seg.maxSpeed
+  if (seg.access) rest.access = seg.access
+  if (seg.gap) rest.gap = true
+  if (seg.openWater) rest.openWater = true
+  if (seg.obstacles) {
+    rest.obstacles = [...seg.obstacles]
+    for (const obstacle of seg.obstacles) carriers.set(obstacle, (carriers.get(obstacle) || 1) + 1)
+  }
+  return id
+}
+
+// Link way ends that touch no other way to the closest other waterway within the
+// tolerance, splitting its segment where needed. Gap edges are navigable both ways.
+// Ends that find nothing are tried again when more elements are merged.
+const repairGaps = (graph: Graph, carriers: Map<Obstacle, number>, toleranceMeters: number) => {
+  const { degree, incident } = nodeDegrees(graph)
+
+  let links = 0
+  for (const [id, count] of degree) {
+    if (count !== 1) continue
+    const at = graph.coords.get(id)!
+    const own = graph.segments[incident.get(id)!]
+    if (own.openWater) continue // Water area entry that no line reaches (yet)
+
+    const hit = graph.index.kNearest(at, 8, toleranceMeters).find(candidate => {
+      const seg = graph.segments[candidate.index]
+      return seg.idA !== id && seg.idB !== id && !seg.gap &&
+        (own.wayId === undefined || seg.wayId !== own.wayId)
+    })
+    if (!hit) continue
+
+    const seg = graph.segments[hit.index]
+    const target =
+      hit.t === 0 || haversine(hit.point, seg.a) < 1 ? seg.idA :
+      hit.t === 1 || haversine(hit.point, seg.b) < 1 ? seg.idB :
+      splitSegment(graph, hit.index, hit.point, carriers)
+    if (graph.adj.get(id)!.some(([neighbour]) => neighbour === target)) continue
+
+    graph.segments[graphAddEdge(id, target, graph)].gap = true
+    degree.set(id, count + 1)
+    degree.set(target, (degree.get(target) ?? 2) + 1) // A new split node has both halves
+    links++
+  }
+  return links
+}
+
+// Connect waterway ends at lakes and other water areas. An area is meshed when the first
+// waterway reaches it; every end then gets an entry point in the water with straight
+// lines to all mesh vertices and earlier entries it can see. Returns the ends connected.
+const connectOpenWater = (graph: Graph, state: GraphBuildState) => {
+  if (state.waterAreas.length === 0) return 0
+  const { degree, incident } = nodeDegrees(graph)
+  const ends = [...degree]
+    .filter(([id, count]) => count === 1 && !graph.segments[incident.get(id)!].openWater)
+    .map(([id]) => id)
+
+  let connected = 0
+  for (const water of state.waterAreas) {
+    const { area } = water
+    const padLat = WATER_ANCHOR_METERS / 111320
+    const padLon = padLat / Math.cos(toRad(Math.max(Math.abs(area.bounds.s), Math.abs(area.bounds.n))))
+    const near = ends.filter(id => {
+      const [lat, lon] = graph.coords.get(id)!
+      return lat >= area.bounds.s - padLat && lat <= area.bounds.n + padLat &&
+        lon >= area.bounds.w - padLon && lon <= area.bounds.e + padLon
+    })
+    if (near.length === 0) continue
+
+    const addWaterEdge = (a: number, b: number) => {
+      const seg = graph.segments[graphAddEdge(a, b, graph)]
+      seg.openWater = true
+      if (area.name) seg.name = area.name
+    }
+
+    if (!water.tolerance) {
+      const mesh = createWaterMesh(area)
+      water.tolerance = mesh.tolerance
+      water.vertices = mesh.vertices.map(([lat, lon]) => graphAddNode(lat, lon, graph))
+      for (const [i, j] of mesh.links) addWaterEdge(water.vertices[i], water.vertices[j])
+    }
+
+    const isClear = createShoreCheck(area, water.tolerance)
+    for (const id of near) {
+      const entry = waterEntryPoint(area, graph.coords.get(id)!)
+      if (!entry) continue
+      const entryId = graphAddNode(entry[0], entry[1], graph)
+      if (entryId !== id) addWaterEdge(id, entryId)
+      for (const other of [...water.vertices, ...water.entries]) {
+        if (other !== entryId && isClear(entry, graph.coords.get(other)!)) addWaterEdge(entryId, other)
+      }
+      water.entries.push(entryId)
+      connected++
+    }
+  }
+  return connected
+}
+
+// Undirected connected components; one-way edges still connect their nodes
+export interface GraphComponents {
+  count: number
+  of: Int32Array // Component per node id (0 for unused ids)
+  sizes: number[] // Nodes per component, indexed by component (1-based)
+}
+
+export const findComponents = (graph: Graph): GraphComponents => {
+  const parent = new Int32Array(graph.nextId)
+  for (let id = 0; id < parent.length; id++) parent[id] = id
+  const root = (id: number) => {
+    while (parent[id] !== id) {
+      parent[id] = parent[parent[id]]
+      id = parent[id]
+    }
+    return id
+  }
+  for (const seg of graph.segments) {
+    const a = root(seg.idA), b = root(seg.idB)
+    if (a !== b) parent[a] = b
+  }
+
+  const of = new Int32Array(graph.nextId)
+  const label = new Map<number, number>()
+  const sizes: number[] = [0]
+  for (const id of graph.coords.keys()) {
+    const r = root(id)
+    if (!label.has(r)) {
+      label.set(r, sizes.length)
+      sizes.push(0)
+    }
+    of[id] = label.get(r)!
+    sizes[of[id]]++
+  }
+  return { count: sizes.length - 1, of, sizes }
+}
+
+export const createGraph = (): Graph => ({
+  nextId: 1,
+  nodes: new Map(),
+  coords: new Map(),
+  adj: new Map(),
+  segments: [],
+  nodeObstacles: new Map(),
+  index: createSegmentIndex()
+})
+
+// What a graph has been built from, so later elements can be merged into it
+export interface GraphBuildState {
+  seen: Set<string> // `${type}/${id}` of every element already processed
+  pendingNodes: any[] // Lock/bridge nodes not on a loaded waterway yet
+  pendingBridges: any[] // Bridge ways not crossing a loaded waterway yet
+  carriers: Map<Obstacle, number> // Edges and nodes carrying each obstacle, for passage delay shares
+  waterAreas: OpenWaterArea[] // Lakes and other water areas routed through in straight lines
+  dirty: boolean // Elements merged that gaps, open water and obstacles have not been worked out for yet
+}
+
+// A water area merged into the graph; meshed once a waterway reaches it
+export interface OpenWaterArea {
+  area: WaterArea
+  tolerance: number // Shore simplification of the mesh in meters, 0 until meshed
+  vertices: number[] // Graph nodes of the mesh
+  entries: number[] // Graph nodes where waterways enter the water
+}
+
+export const createGraphBuildState = (): GraphBuildState => ({
+  seen: new Set(),
+  pendingNodes: [],
+  pendingBridges: [],
+  carriers: new Map(),
+  waterAreas: [],
+  dirty: false
+})
+
 // Build graph from waterways data - EXACTLY like HTML version
-export const buildGraphFromWaterways = (elements: any[]): Promise<Graph> => {
-  console.log('🔍 Building graph from', elements.length, 'elements')
+export const buildGraphFromWaterways = async (elements: any[], options: RouteComputeOptions = {}): Promise<Graph> => {
+  const graph = createGraph()
+  await mergeIntoGraph(graph, createGraphBuildState(), elements, options)
+  return graph
+}
+
+// Merge Overpass elements into a graph, skipping elements it already contains (by OSM
+// type and id). Resolves with the number of new elements.
+export const mergeIntoGraph = (
+  graph: Graph,
+  state: GraphBuildState,
+  elements: any[],
+  options: RouteComputeOptions = {}
+): Promise<number> => {
+  console.log('🔍 Merging', elements.length, 'elements into a graph of', graph.segments.length, 'segments')
   
-  const graph: Graph = {
-    nextId: 1,
-    nodes: new Map(),
-    coords: new Map(),
-    adj: new Map(),
-    segments: []
-  }
+  // Lock and bridge elements wait in the build state until their waterway is in the graph
+  const { carriers } = state
+  let added = 0
 
   // Build in small batches to keep UI smooth - EXACTLY like HTML version
-  return new Promise((resolve) => {
+  return new Promise((resolve, reject) => {
     const BATCH = 200
     let i = 0
     
     function step() {
+      if (options.signal?.aborted) {
+        reject(createAbortError())
+        return
+      }
+      
       const end = Math.min(elements.length, i + BATCH)
       
       for (; i < end; i++) {
         const el = elements[i]
+        const key = `${el.type}/${el.id}`
+        if (state.seen.has(key)) continue
+        state.seen.add(key)
+        state.dirty = true
+        added++
+        
+        if (el.type === 'node' && (isLockTagged(el.tags) || isBridgeTagged(el.tags))) {
+          state.pendingNodes.push(el)
+          continue
+        }
+        
+        // Lakes, seas and fairway areas are meshed once a waterway reaches them
+        const waterArea = el.type === 'way' || el.type === 'relation' ? waterAreaFromElement(el) : null
+        if (waterArea) {
+          state.waterAreas.push({ area: waterArea, tolerance: 0, vertices: [], entries: [] })
+          continue
+        }
+        
         if (el.type === 'way' && el.geometry && el.geometry.length >= 2) {
           // Filter out non-navigable waterways (ditches, drains, streams)
           const waterwayType = el.tags?.waterway
           const navigableTypes = ['canal', 'river', 'fairway', 'shipyard', 'navigation']
           
+          if (!waterwayType && isBridgeTagged(el.tags)) {
+            state.pendingBridges.push(el)
+            continue
+          }
+          
           if (!waterwayType || !navigableTypes.includes(waterwayType)) {
             continue // Skip non-navigable waterways
           }
@@ -95,33 +551,70 @@ export const buildGraphFromWaterways = (elements: any[]): Promise<Graph> => {
             if (width && width < 10 && !boat && !motorboat && !ship) {
               continue // Skip small rivers
             }
-            
-            // Skip rivers explicitly marked as not accessible to boats
-            if (boat === 'no' || motorboat === 'no' || ship === 'no') {
-              continue // Skip non-boat rivers
-            }
           }
           
+          // Access rules apply to every waterway type. Seasonal restrictions and rules that
+          // differ for ships are kept on the segments and checked during the search.
+          const access = extractAccess(el.tags)
+          const segmentAccess = access && (hasConditionalAccess(access) || dependsOnVesselSize(access)) ? access : undefined
+          if (!segmentAccess && !isAccessAllowed(access)) {
+            continue // Skip waterways closed to boats (access/boat/motorboat = no/private)
+          }
+          const oneway = parseOneway(el.tags?.oneway)
+          
           // CRITICAL: Use [lon, lat] format like HTML version
           const coords = el.geometry.map((g: any) => [g.lon, g.lat])
           
+          // Lock chambers and stretches tagged with maxwidth/maxdraft etc. restrict every edge of the way
+          const wayObstacle = obstacleFromElement(el, isLockTagged(el.tags) ? 'lock' : 'waterway')
+          const name = el.tags?.name
+          const ref = el.tags?.ref
+          const maxSpeed = parseSpeed(el.tags?.maxspeed)
+          
           let prevId: number | null = null
           for (let j = 0; j < coords.length; j++) {
             // Extract lat from index 1, lon from index 0 (matching HTML version)
             const lat = coords[j][1], lon = coords[j][0]
             const id = graphAddNode(lat, lon, graph)
-            if (prevId !== null) graphAddEdge(prevId, id, graph)
+            if (prevId !== null) {
+              const index = graphAddEdge(prevId, id, graph, el.id, oneway)
+              if (segmentAccess) graph.segments[index].access = segmentAccess
+              if (name) graph.segments[index].name = name
+              if (ref) graph.segments[index].ref = ref
+              if (maxSpeed) graph.segments[index].maxSpeed = maxSpeed
+              if (wayObstacle) {
+                addSegmentObstacle(graph.segments[index], wayObstacle)
+                carriers.set(wayObstacle, (carriers.get(wayObstacle) || 0) + 1)
+              }
+            }
             prevId = id
           }
         }
       }
       
+      options.onProgress?.({ phase: 'graph', fraction: elements.length ? i / elements.length : 1 })
+      
       if (i < elements.length) {
         // Process next batch asynchronously to keep UI responsive
         setTimeout(step, 0)
       } else {
-        console.log(`🔍 Graph building complete: ${graph.nodes.size} nodes, ${graph.segments.length} segments`)
-        resolve(graph)
+        // Also after a merge that was cancelled halfway: its elements are already seen, so
+        // a retry adds nothing new but still has to finish them
+        if (state.dirty) {
+          // Water areas first, so ends at a lake are not linked to each other instead.
+          // Both before attaching obstacles, so split lock chambers count their new halves.
+          const entries = connectOpenWater(graph, state)
+          if (entries > 0) console.log(`🌊 Connected ${entries} waterway ends to open water`)
+          const links = repairGaps(graph, carriers, options.params?.gapToleranceMeters ?? DEFAULT_GAP_TOLERANCE_METERS)
+          const components = findComponents(graph)
+          console.log(`🧩 Linked ${links} waterway gaps: ${components.count} connected networks, largest ${components.sizes.reduce((max, size) => Math.max(max, size), 0)} nodes`)
+          const pending = attachObstacles(graph, state.pendingNodes, state.pendingBridges, carriers)
+          state.pendingNodes = pending.pendingNodes
+          state.pendingBridges = pending.pendingBridges
+          state.dirty = false
+        }
+        console.log(`🔍 Graph building complete: ${graph.nodes.size} nodes, ${graph.segments.length} segments (${added} new elements)`)
+        resolve(added)
       }
     }
     
@@ -129,69 +622,95 @@ export const buildGraphFromWaterways = (elements: any[]): Promise<Graph> => {
   })
 }
 
-// Find nearest graph node - EXACTLY like HTML version
-export const findNearestGraphNode = (latlng: {lat: number, lng: number}, graph: Graph, snap: boolean = true) => {
-  let target: [number, number] = [latlng.lat, latlng.lng]
-  let nearest = { 
-    dist: Infinity, 
-    id: null as number | null, 
-    proj: target as [number, number], 
-    idA: null as number | null, 
-    idB: null as number | null,
-    t: 0
-  }
+// Where a point attaches to the graph
+export interface GraphSnap {
+  id: number | null // Existing node at that spot, null when it lies inside a segment
+  snapped: boolean // Projected onto the nearest segment
+  at: [number, number]
+  segment: number // Segment projected onto, -1 when not snapped
+  t: number // Position along that segment, 0 = a, 1 = b
+}
+
+// Find nearest graph node or segment. Does not modify the graph: points inside a
+// segment become virtual nodes through createSnapView.
+export const findNearestGraphNode = (latlng: {lat: number, lng: number}, graph: Graph, snap: boolean = true): GraphSnap | null => {
+  const target: [number, number] = [latlng.lat, latlng.lng]
   
   if (snap && graph.segments.length > 0) {
-    // Scan segments (could be further optimized with spatial index) - EXACTLY like HTML
-    for (const seg of graph.segments) {
-      const proj = nearestPointOnSegment(target, seg.a, seg.b)
-      const d = haversine(target, [proj[0], proj[1]])
-      if (d < nearest.dist) {
-        nearest = { 
-          dist: d, 
-          idA: seg.idA, 
-          idB: seg.idB, 
-          t: proj[2], 
-          proj: [proj[0], proj[1]] as [number, number],
-          id: null
-        }
-      }
+    // Closest segment from the graph's spatial index
+    const hit = graph.index.nearest(target)
+    if (!hit) return null
+    const seg = graph.segments[hit.index]
+    // A projection onto an end of the segment (or any other node) uses that node
+    const id = hit.t === 0 ? seg.idA : hit.t === 1 ? seg.idB : graph.nodes.get(nodeKey(hit.point[0], hit.point[1]))
+    return {
+      id: id ?? null,
+      snapped: true,
+      at: id !== undefined ? graph.coords.get(id)! : hit.point,
+      segment: hit.index,
+      t: hit.t
     }
-    
-    if (nearest.idA !== null && nearest.idB !== null) {
-      const tempId = graphAddNode(nearest.proj[0], nearest.proj[1], graph)
-      graph.adj.get(tempId)!.length = 0
-      
-      const dA = haversine(nearest.proj, graph.coords.get(nearest.idA)!)
-      const dB = haversine(nearest.proj, graph.coords.get(nearest.idB)!)
-      
-      graph.adj.get(tempId)!.push([nearest.idA, dA])
-      graph.adj.get(nearest.idA)!.push([tempId, dA])
-      graph.adj.get(tempId)!.push([nearest.idB, dB])
-      graph.adj.get(nearest.idB)!.push([tempId, dB])
-      
-      return { id: tempId, snapped: true, at: nearest.proj }
-    }
-  } else {
-    for (const [id, coord] of graph.coords) {
-      const d = haversine(target, coord)
-      if (d < nearest.dist) {
-        nearest = { 
-          dist: d, 
-          id, 
-          proj: coord, 
-          idA: null, 
-          idB: null,
-          t: 0
-        }
-      }
+  }
+  
+  let nearest: GraphSnap | null = null
+  let nearestDist = Infinity
+  for (const [id, coord] of graph.coords) {
+    const d = haversine(target, coord)
+    if (d < nearestDist) {
+      nearestDist = d
+      nearest = { id, snapped: false, at: coord, segment: -1, t: 0 }
     }
-    if (nearest.id !== null) {
-      return { id: nearest.id, snapped: false, at: nearest.proj }
+  }
+  return nearest
+}
+
+// Overlay snapped points on the graph for one query. Points inside a segment become
+// virtual nodes numbered from graph.nextId; the segment is split into a chain
+// a - v1 - v2 - b ordered along it, and the halves keep the segment index so its
+// obstacles, access and direction still apply. The graph itself is never touched, so
+// it can be cached and shared between route requests.
+export const createSnapView = (graph: Graph, snaps: GraphSnap[]) => {
+  const coords = new Map<number, [number, number]>()
+  const adj = new Map<number, [number, number, number][]>()
+  const bySegment = new Map<number, Array<{ id: number, at: [number, number], t: number }>>()
+  let nextId = graph.nextId
+  
+  // Copy-on-write adjacency for the segment ends
+  const neighbours = (id: number) => {
+    if (!adj.has(id)) adj.set(id, [...(graph.adj.get(id) || [])])
+    return adj.get(id)!
+  }
+  
+  const nodes = snaps.map(snap => {
+    if (snap.id !== null) return { id: snap.id, snapped: snap.snapped, at: snap.at }
+    const id = nextId++
+    coords.set(id, snap.at)
+    adj.set(id, [])
+    if (!bySegment.has(snap.segment)) bySegment.set(snap.segment, [])
+    bySegment.get(snap.segment)!.push({ id, at: snap.at, t: snap.t })
+    return { id, snapped: true, at: snap.at }
+  })
+  
+  for (const [segment, points] of bySegment) {
+    const seg = graph.segments[segment]
+    points.sort((p, q) => p.t - q.t)
+    const chain = [{ id: seg.idA, at: seg.a }, ...points, { id: seg.idB, at: seg.b }]
+    for (let i = 0; i < chain.length - 1; i++) {
+      const from = chain[i], to = chain[i + 1]
+      const d = haversine(from.at, to.at)
+      if (seg.oneway !== -1) neighbours(from.id).push([to.id, d, segment])
+      if (seg.oneway !== 1) neighbours(to.id).push([from.id, d, segment])
     }
   }
   
-  return null
+  const view: GraphView = {
+    nextId,
+    coords: { get: id => coords.get(id) ?? graph.coords.get(id), has: id => coords.has(id) || graph.coords.has(id) },
+    adj: { get: id => adj.get(id) ?? graph.adj.get(id), has: id => adj.has(id) || graph.adj.has(id) },
+    segments: graph.segments,
+    nodeObstacles: graph.nodeObstacles
+  }
+  return { view, nodes }
 }
 
 // Build graph arrays for routing - EXACTLY like HTML version
@@ -213,68 +732,790 @@ export const buildGraphArrays = (graph: Graph) => {
   return { coords, adj }
 }
 
-// Dijkstra's algorithm - EXACTLY like HTML version (without Web Worker for now)
-export const findShortestPath = (startId: number, endId: number, graph: Graph) => {
-  console.log(`🔍 Starting Dijkstra with ${graph.nextId - 1} nodes, start: ${startId}, end: ${endId}`)
-  
-  const { coords, adj } = buildGraphArrays(graph)
-  const N = coords.length - 1 // ids are 1..N
-  
-  const dist = new Array(N + 1).fill(Infinity)
-  const prev = new Array(N + 1).fill(0)
-  const visited = new Array(N + 1).fill(false)
-  
-  dist[startId] = 0
-  
-  // Simple Dijkstra implementation (HTML version uses Web Worker with min-heap)
-  for (let i = 0; i <= N; i++) {
-    // Find unvisited node with minimum distance
-    let u = -1
-    let minDist = Infinity
-    
-    for (let j = 0; j <= N; j++) {
-      if (!visited[j] && dist[j] < minDist) {
-        minDist = dist[j]
-        u = j
+// Binary min-heap of node ids keyed by priority - replaces the linear minimum scan
+const createMinHeap = () => {
+  const ids: number[] = []
+  const keys: number[] = []
+
+  const swap = (i: number, j: number) => {
+    const id = ids[i]; ids[i] = ids[j]; ids[j] = id
+    const key = keys[i]; keys[i] = keys[j]; keys[j] = key
+  }
+
+  const push = (id: number, key: number) => {
+    ids.push(id)
+    keys.push(key)
+    let i = ids.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (keys[parent] <= keys[i]) break
+      swap(i, parent)
+      i = parent
+    }
+  }
+
+  const pop = () => {
+    const top = ids[0]
+    const lastId = ids.pop()!, lastKey = keys.pop()!
+    if (ids.length > 0) {
+      ids[0] = lastId
+      keys[0] = lastKey
+      let i = 0
+      for (;;) {
+        const l = i * 2 + 1, r = l + 1
+        let smallest = i
+        if (l < ids.length && keys[l] < keys[smallest]) smallest = l
+        if (r < ids.length && keys[r] < keys[smallest]) smallest = r
+        if (smallest === i) break
+        swap(i, smallest)
+        i = smallest
       }
     }
-    
-    if (u === -1 || u === endId) break
-    
-    visited[u] = true
-    
-    // Update distances to neighbors - EXACTLY like HTML version
-    const row = adj[u] || []
-    for (let k = 0; k < row.length; k += 2) {
-      const v = row[k], w = row[k + 1]
-      if (v !== undefined && w !== undefined) {
-        const nd = dist[u] + w
+    return top
+  }
+
+  return { push, pop, size: () => ids.length }
+}
+
+export interface PathSearchOptions {
+  // Set to false to run plain Dijkstra (zero heuristic), e.g. to compare expansions
+  useHeuristic?: boolean
+  // Return false to exclude an edge (segment index) leading into node `to`
+  canTraverse?: (segment: number, to: number) => boolean
+  // Cost of an edge of `meters` length from node `from` into node `to`; defaults to the length
+  edgeCost?: (segment: number, to: number, meters: number, from: number) => number
+  // Lower bound on cost per meter, keeps the heuristic admissible for custom costs
+  heuristicScale?: number
+}
+
+export interface PathSearchResult {
+  path: number[]
+  edges: number[] // Segment index of each hop, path.length - 1 entries
+  meters: number
+  cost: number // Equal to meters unless an edgeCost was given
+  expanded: number // Number of nodes taken off the queue
+}
+
+// Incremental A* over the graph adjacency with haversine as heuristic. Edge weights are
+// haversine distances too, so the heuristic is admissible and path lengths match Dijkstra
+// exactly. A custom edgeCost must pass a heuristicScale no larger than its cheapest cost
+// per meter. step() expands at most `budget` nodes so long searches can be sliced.
+export const createPathSearch = (
+  startId: number,
+  endId: number,
+  graph: GraphView,
+  options: PathSearchOptions = {}
+) => {
+  const useHeuristic = options.useHeuristic !== false
+  const { canTraverse, edgeCost } = options
+  const scale = options.heuristicScale ?? 1
+  const goal = graph.coords.get(endId)
+  const size = graph.nextId
+  const dist = new Float64Array(size).fill(Infinity)
+  const meters = new Float64Array(size)
+  const prev = new Int32Array(size)
+  const prevEdge = new Int32Array(size)
+  const closed = new Uint8Array(size)
+  const remaining = (id: number) => haversine(graph.coords.get(id)!, goal!)
+  const h = (id: number) => useHeuristic ? remaining(id) * scale : 0
+
+  const open = createMinHeap()
+  let expanded = 0
+  let done = false
+  let startRemaining = 0
+  let bestRemaining = Infinity
+
+  if (goal && graph.coords.has(startId)) {
+    dist[startId] = 0
+    open.push(startId, h(startId))
+    startRemaining = remaining(startId)
+  }
+
+  // Returns true once the search has finished (found or exhausted)
+  const step = (budget: number) => {
+    let n = 0
+    while (!done && open.size() > 0 && n < budget) {
+      const u = open.pop()
+      if (closed[u]) continue // Stale queue entry
+      closed[u] = 1
+      expanded++
+      n++
+      if (u === endId) {
+        done = true
+        break
+      }
+      bestRemaining = Math.min(bestRemaining, remaining(u))
+
+      for (const [v, w, segment] of graph.adj.get(u) || []) {
+        if (canTraverse && !canTraverse(segment, v)) continue
+        const nd = dist[u] + (edgeCost ? edgeCost(segment, v, w, u) : w)
         if (nd < dist[v]) {
           dist[v] = nd
+          meters[v] = meters[u] + w
           prev[v] = u
+          prevEdge[v] = segment
+          closed[v] = 0 // Reopen in case of floating-point inconsistency in the heuristic
+          open.push(v, nd + h(v))
         }
       }
     }
+    if (open.size() === 0) done = true
+    return done
+  }
+
+  // Rough completion estimate: how close the search frontier has come to the goal
+  const progress = () => {
+    if (done) return 1
+    if (!startRemaining || bestRemaining === Infinity) return 0
+    return Math.max(0, Math.min(1, 1 - bestRemaining / startRemaining))
+  }
+
+  const result = (): PathSearchResult | null => {
+    if (!goal || dist[endId] === Infinity) {
+      console.log(`❌ No path found to end node ${endId} (${expanded} nodes expanded)`)
+      return null
+    }
+
+    // Reconstruct path
+    const path: number[] = []
+    const edges: number[] = []
+    for (let u = endId; ; u = prev[u]) {
+      path.push(u)
+      if (u === startId) break
+      edges.push(prevEdge[u])
+    }
+    path.reverse()
+    edges.reverse()
+
+    console.log(`✅ Path found: ${path.length} nodes, total distance: ${Math.round(meters[endId])}m, ${expanded} nodes expanded`)
+    return { path, edges, meters: meters[endId], cost: dist[endId], expanded }
+  }
+
+  return { step, progress, result, expanded: () => expanded }
+}
+
+export const findShortestPath = (
+  startId: number,
+  endId: number,
+  graph: GraphView,
+  options: PathSearchOptions = {}
+): PathSearchResult | null => {
+  console.log(`🔍 Starting ${options.useHeuristic === false ? 'Dijkstra' : 'A*'} with ${graph.nextId - 1} nodes, start: ${startId}, end: ${endId}`)
+  const search = createPathSearch(startId, endId, graph, options)
+  search.step(Infinity)
+  return search.result()
+}
+
+// Same search, but yields between slices so progress can be reported and an
+// AbortSignal honoured - used from the routing worker
+export const findShortestPathAsync = async (
+  startId: number,
+  endId: number,
+  graph: GraphView,
+  options: PathSearchOptions & RouteComputeOptions = {}
+): Promise<PathSearchResult | null> => {
+  const SLICE = 5000
+  const search = createPathSearch(startId, endId, graph, options)
+  
+  while (!search.step(SLICE)) {
+    options.onProgress?.({ phase: 'search', fraction: search.progress(), expanded: search.expanded() })
+    await new Promise(resolve => setTimeout(resolve, 0))
+    if (options.signal?.aborted) throw createAbortError()
+  }
+  
+  options.onProgress?.({ phase: 'search', fraction: 1, expanded: search.expanded() })
+  return search.result()
+}
+
+// Edge filter excluding bridges, locks and stretches the boat does not fit through.
+// blocked() reports whether the filter rejected anything during a search.
+export const createProfileFilter = (graph: GraphView, profile: BoatProfile) => {
+  const verdicts = new Map<Obstacle, boolean>()
+  let rejected = 0
+  const fits = (obstacles?: Obstacle[]) => {
+    if (!obstacles) return true
+    for (const obstacle of obstacles) {
+      if (!verdicts.has(obstacle)) verdicts.set(obstacle, findViolation(obstacle, profile) === null)
+      if (!verdicts.get(obstacle)) return false
+    }
+    return true
+  }
+
+  const canTraverse = (segment: number, to: number) => {
+    const ok = fits(graph.segments[segment]?.obstacles) && fits(graph.nodeObstacles.get(to))
+    if (!ok) rejected++
+    return ok
+  }
+
+  return { canTraverse, blocked: () => rejected > 0 }
+}
+
+// Edge filter closing waterways whose access denies the boat at departure, by date and by
+// whether the boat is long enough to count as a ship
+export const createAccessFilter = (graph: GraphView, departure: Date, profile?: BoatProfile) => {
+  const verdicts = new Map<WaterwayAccess, boolean>()
+  const ship = isShipLength(profile?.length)
+  return (segment: number, _to: number) => {
+    const access = graph.segments[segment]?.access
+    if (!access) return true
+    if (!verdicts.has(access)) verdicts.set(access, isAccessAllowed(access, departure, ship))
+    return verdicts.get(access)!
+  }
+}
+
+// Does the edge (segment index, target node) run through an avoid area or past an avoided
+// lock/bridge? Verdicts are cached per edge; the graph does not change during a request.
+export const createAvoidCheck = (graph: GraphView, avoid: AvoidSet) => {
+  const areas = avoid.areas.filter(area => area.length >= 3).map(area => ({ area, ...polygonBounds(area) }))
+  const segmentVerdicts = new Map<number, boolean>()
+  const nodeVerdicts = new Map<number, boolean>()
+
+  const avoidedObstacle = (obstacles?: Obstacle[]) =>
+    !!obstacles?.some(o => o.kind !== 'waterway' && isObjectAvoided(avoid, o.osmType, o.osmId))
+
+  const segmentAvoided = (segment: number) => {
+    const seg = graph.segments[segment]
+    if (!seg) return false
+    if (avoidedObstacle(seg.obstacles)) return true
+    for (const { area, s, w, n, e } of areas) {
+      const outside = Math.max(seg.a[0], seg.b[0]) < s || Math.min(seg.a[0], seg.b[0]) > n ||
+        Math.max(seg.a[1], seg.b[1]) < w || Math.min(seg.a[1], seg.b[1]) > e
+      if (!outside && segmentTouchesPolygon(seg.a, seg.b, area)) return true
+    }
+    return avoid.objects.some(o => distanceToSegmentMeters(o.at, seg.a, seg.b) <= AVOID_RADIUS_METERS)
+  }
+
+  return (segment: number, to: number) => {
+    if (!segmentVerdicts.has(segment)) segmentVerdicts.set(segment, segmentAvoided(segment))
+    if (segmentVerdicts.get(segment)) return true
+    if (!nodeVerdicts.has(to)) nodeVerdicts.set(to, avoidedObstacle(graph.nodeObstacles.get(to)))
+    return nodeVerdicts.get(to)!
+  }
+}
+
+// Multiply the cost of avoided edges; penalties are >= 1 so the heuristic stays admissible
+const withAvoidPenalty = (
+  cost: Pick<PathSearchOptions, 'edgeCost' | 'heuristicScale'>,
+  avoided: ((segment: number, to: number) => boolean) | null
+): Pick<PathSearchOptions, 'edgeCost' | 'heuristicScale'> => {
+  if (!avoided) return cost
+  const { edgeCost } = cost
+  return {
+    ...cost,
+    edgeCost: (segment, to, meters, from) => {
+      const base = edgeCost ? edgeCost(segment, to, meters, from) : meters
+      return avoided(segment, to) ? base * AVOID_PENALTY : base
+    }
+  }
+}
+
+// Combine edge filters; undefined when there are none
+const allOf = (...filters: Array<PathSearchOptions['canTraverse']>): PathSearchOptions['canTraverse'] => {
+  const active = filters.filter(Boolean) as Array<NonNullable<PathSearchOptions['canTraverse']>>
+  if (active.length === 0) return undefined
+  if (active.length === 1) return active[0]
+  return (segment, to) => active.every(filter => filter(segment, to))
+}
+
+// Constraints the boat would violate along a path, one entry per obstacle
+export const findPathViolations = (graph: GraphView, route: PathSearchResult, profile: BoatProfile) => {
+  const violations: ConstraintViolation[] = []
+  const seen = new Set<Obstacle>()
+  const check = (obstacles?: Obstacle[]) => {
+    for (const obstacle of obstacles || []) {
+      if (seen.has(obstacle)) continue
+      seen.add(obstacle)
+      const violation = findViolation(obstacle, profile)
+      if (violation) violations.push(violation)
+    }
+  }
+  route.edges.forEach((segment, i) => {
+    check(graph.segments[segment]?.obstacles)
+    check(graph.nodeObstacles.get(route.path[i + 1]))
+  })
+  return violations
+}
+
+// Edge cost in seconds: sailing time at cruising speed (or the waterway's speed limit)
+// plus the share of expected waiting time at movable bridges and locks on the edge and
+// its target node. Limits only slow the boat down, so 1 / cruising speed stays a lower bound.
+export const createTimeCost = (graph: GraphView, model: CostModel): Pick<PathSearchOptions, 'edgeCost' | 'heuristicScale'> => {
+  const mps = speedToMps(model.speedKmh)
+  return {
+    edgeCost: (segment, to, meters) => {
+      const seg = graph.segments[segment]
+      return meters / speedToMps(effectiveSpeedKmh(model, seg?.maxSpeed)) +
+        carrierDelaySeconds(seg?.obstacles, model) +
+        carrierDelaySeconds(graph.nodeObstacles.get(to), model)
+    },
+    heuristicScale: 1 / mps
+  }
+}
+
+// A lock or movable bridge the route passes, with its expected wait
+export interface RoutePassage {
+  kind: 'bridge' | 'lock'
+  name?: string
+  osmType: 'node' | 'way'
+  osmId: number
+  at: [number, number] // [lat, lng]
+  distance: number // Meters from the start of the route
+  time: number // Expected seconds from the start on arrival, before waiting
+  delaySeconds: number
+}
+
+// A stretch where a speed limit keeps the boat below cruising speed
+export interface SpeedRestriction {
+  name?: string
+  limitKmh: number
+  distance: number // Meters from the start of the route where the stretch begins
+  meters: number
+  delaySeconds: number // Extra time compared with sailing it at cruising speed
+}
+
+export interface PathTimeProfile {
+  times: number[] // Expected seconds from the start at each path node, waits included
+  seconds: number
+  passages: RoutePassage[]
+  restrictions: SpeedRestriction[]
+}
+
+// Walk a path edge by edge: sailing time at the effective speed of each edge, plus the
+// locks and movable bridges in sailing order. Every physical object (passage group)
+// is listed once and charged one full wait.
+export const profilePath = (graph: GraphView, route: PathSearchResult, model: CostModel): PathTimeProfile => {
+  const cruiseMps = speedToMps(model.speedKmh)
+  const passages: RoutePassage[] = []
+  const restrictions: SpeedRestriction[] = []
+  const times = [0]
+  const seen = new Set<string>()
+  let distance = 0
+  let elapsed = 0
+
+  const visit = (obstacles?: Obstacle[]) => {
+    for (const obstacle of obstacles || []) {
+      if (obstacle.kind === 'waterway') continue
+      const delaySeconds = obstacleWaitSeconds(obstacle, model)
+      const group = obstacle.passage?.group || `${obstacle.osmType}/${obstacle.osmId}`
+      if (delaySeconds <= 0 || seen.has(group)) continue
+      seen.add(group)
+      passages.push({
+        kind: obstacle.kind,
+        name: obstacle.name,
+        osmType: obstacle.osmType,
+        osmId: obstacle.osmId,
+        at: obstacle.at,
+        distance,
+        time: elapsed,
+        delaySeconds
+      })
+      elapsed += delaySeconds
+    }
+  }
+
+  route.edges.forEach((segment, i) => {
+    const seg = graph.segments[segment]
+    const meters = haversine(graph.coords.get(route.path[i])!, graph.coords.get(route.path[i + 1])!)
+    visit(seg?.obstacles)
+
+    const speed = effectiveSpeedKmh(model, seg?.maxSpeed)
+    const seconds = meters / speedToMps(speed)
+    if (speed < model.speedKmh) {
+      // Merge consecutive edges with the same limit into one stretch
+      const last = restrictions[restrictions.length - 1]
+      if (last && last.limitKmh === speed && Math.abs(last.distance + last.meters - distance) < 1) {
+        last.meters += meters
+        last.delaySeconds += seconds - meters / cruiseMps
+        if (!last.name) last.name = seg?.name
+      } else {
+        restrictions.push({ name: seg?.name, limitKmh: speed, distance, meters, delaySeconds: seconds - meters / cruiseMps })
+      }
+    }
+
+    distance += meters
+    elapsed += seconds
+    visit(graph.nodeObstacles.get(route.path[i + 1]))
+    times.push(elapsed)
+  })
+
+  return { times, seconds: elapsed, passages, restrictions }
+}
+
+// Locks and bridges on a path, each physical object counted once, and the lowest
+// clearance under a fixed bridge
+export const summarisePath = (graph: GraphView, route: PathSearchResult) => {
+  const seen = new Set<string>()
+  let locks = 0, bridges = 0
+  let minClearance: number | undefined
+  const count = (obstacles?: Obstacle[]) => {
+    for (const obstacle of obstacles || []) {
+      if (obstacle.kind === 'waterway') continue
+      const group = obstacle.passage?.group || `${obstacle.osmType}/${obstacle.osmId}`
+      if (seen.has(group)) continue
+      seen.add(group)
+      if (obstacle.kind === 'lock') locks++
+      else bridges++
+      const height = obstacle.clearance.height
+      if (obstacle.kind === 'bridge' && !obstacle.movable && height !== undefined) {
+        minClearance = minClearance === undefined ? height : Math.min(minClearance, height)
+      }
+    }
   }
+  route.edges.forEach((segment, i) => {
+    count(graph.segments[segment]?.obstacles)
+    count(graph.nodeObstacles.get(route.path[i + 1]))
+  })
+  return { locks, bridges, minClearance }
+}
+
+// Alternatives are rejected when they share more than this part of their length with a
+// route already found, or take more than MAX_STRETCH times as long as the best route
+const PENALTY_FACTOR = 1.4
+const MAX_OVERLAP = 0.7
+const MAX_STRETCH = 1.5
+
+// Penalty method: after each path its edges are made more expensive and the search is
+// repeated, which pushes the next path onto different waterways. Penalties are >= 1, so
+// the A* heuristic stays admissible.
+export const findAlternativePaths = async (
+  startId: number,
+  endId: number,
+  graph: GraphView,
+  best: PathSearchResult,
+  count: number,
+  options: PathSearchOptions & Pick<RouteComputeOptions, 'signal'> = {}
+): Promise<PathSearchResult[]> => {
+  const { edgeCost } = options
+  const baseCost = (segment: number, to: number, meters: number, from: number) =>
+    edgeCost ? edgeCost(segment, to, meters, from) : meters
+
+  // Penalties are keyed by node pair rather than segment index: the halves of a
+  // segment split at the start or end point share the index but are different edges
+  const size = graph.nextId
+  const edgeKey = (u: number, v: number) => u < v ? u * size + v : v * size + u
+  const edgeMeters = (route: PathSearchResult) =>
+    route.edges.map((_, i) => haversine(graph.coords.get(route.path[i])!, graph.coords.get(route.path[i + 1])!))
+
+  const penalties = new Map<number, number>()
+  const penalise = (route: PathSearchResult) => {
+    route.edges.forEach((_, i) => {
+      const key = edgeKey(route.path[i], route.path[i + 1])
+      penalties.set(key, (penalties.get(key) || 1) * PENALTY_FACTOR)
+    })
+  }
+
+  // Overlap is measured per segment: meters sailed on it, so a split half only
+  // overlaps the full segment by its own length
+  const metersPerSegment = (route: PathSearchResult, meters: number[]) => {
+    const bySegment = new Map<number, number>()
+    route.edges.forEach((segment, i) => bySegment.set(segment, (bySegment.get(segment) || 0) + meters[i]))
+    return bySegment
+  }
+  const accepted: Array<{ route: PathSearchResult, segments: Map<number, number> }> = [
+    { route: best, segments: metersPerSegment(best, edgeMeters(best)) }
+  ]
+  const alternatives: PathSearchResult[] = []
+
+  let last = best
+  for (let attempt = 0; attempt < count * 3 && alternatives.length < count; attempt++) {
+    penalise(last)
+    const candidate = await findShortestPathAsync(startId, endId, graph, {
+      ...options,
+      edgeCost: (segment, to, meters, from) => baseCost(segment, to, meters, from) * (penalties.get(edgeKey(from, to)) || 1)
+    })
+    if (!candidate) break
+    last = candidate
+
+    // Cost without penalties, to compare with the best route
+    const meters = edgeMeters(candidate)
+    const cost = candidate.edges.reduce((sum, segment, i) => sum + baseCost(segment, candidate.path[i + 1], meters[i], candidate.path[i]), 0)
+    if (cost > best.cost * MAX_STRETCH) break // Penalties only grow, later candidates are worse
+
+    const segments = metersPerSegment(candidate, meters)
+    const distinct = accepted.every(({ route, segments: other }) => {
+      let shared = 0
+      for (const [segment, m] of segments) shared += Math.min(m, other.get(segment) || 0)
+      return shared / Math.min(candidate.meters, route.meters) <= MAX_OVERLAP
+    })
+    if (!distinct) continue
+
+    const alternative = { ...candidate, cost }
+    accepted.push({ route: alternative, segments })
+    alternatives.push(alternative)
+  }
+
+  console.log(`🔀 Found ${alternatives.length} alternative route(s)`)
+  return alternatives
+}
+
+export type GraphArrays = ReturnType<typeof buildGraphArrays>
+
+export type TurnDirection =
+  'straight' | 'slight-starboard' | 'starboard' | 'sharp-starboard' | 'slight-port' | 'port' | 'sharp-port'
+
+// A point on the route where the skipper has to do something
+export interface RouteManeuver {
+  index: number // Coordinate where it happens; the first manoeuvre is the departure
+  turn: TurnDirection
+  bearingChange: number // Degrees, positive to starboard
+  waterway?: string // Name or ref of the waterway ahead
+  renamed: boolean // The waterway ahead has another name than the one sailed so far
+  junction: boolean // More than two waterways meet here
+}
+
+// Bearings are taken over this much of the route on either side of a node, so the short
+// edges of a curved canal do not look like turns
+const TURN_LOOK_METERS = 40
+
+export const turnDirection = (bearingChange: number): TurnDirection => {
+  const side = bearingChange > 0 ? 'starboard' : 'port'
+  const angle = Math.abs(bearingChange)
+  if (angle < 20) return 'straight'
+  if (angle < 45) return `slight-${side}`
+  if (angle < 120) return side
+  return `sharp-${side}`
+}
+
+const bearing = (a: [number, number], b: [number, number]) => {
+  const y = Math.sin(toRad(b[1] - a[1])) * Math.cos(toRad(b[0]))
+  const x = Math.cos(toRad(a[0])) * Math.sin(toRad(b[0])) -
+    Math.sin(toRad(a[0])) * Math.cos(toRad(b[0])) * Math.cos(toRad(b[1] - a[1]))
+  return Math.atan2(y, x) * 180 / Math.PI
+}
+
+// Name changes, turns and junctions along a path. Unnamed stretches (gap links, snapped
+// ends) keep the name sailed before them, so they do not announce a new waterway.
+export const findManeuvers = (graph: GraphView, route: PathSearchResult): RouteManeuver[] => {
+  const points = route.path.map(id => graph.coords.get(id)!)
+  const along = [0]
+  for (let i = 1; i < points.length; i++) along.push(along[i - 1] + haversine(points[i - 1], points[i]))
+  const labelOf = (segment: number) => graph.segments[segment]?.name || graph.segments[segment]?.ref
+
+  // Point TURN_LOOK_METERS before (-1) or after (1) node k, or the path end
+  const lookFrom = (k: number, direction: 1 | -1) => {
+    let j = k
+    while (j + direction >= 0 && j + direction < points.length && Math.abs(along[j] - along[k]) < TURN_LOOK_METERS) j += direction
+    return points[j]
+  }
+
+  let current = route.edges.map(labelOf).find(label => label !== undefined)
+  const maneuvers: RouteManeuver[] = [
+    { index: 0, turn: 'straight', bearingChange: 0, waterway: current, renamed: false, junction: false }
+  ]
+
+  for (let k = 1; k < points.length - 1; k++) {
+    const label = labelOf(route.edges[k])
+    const renamed = label !== undefined && label !== current
+    const change = ((bearing(points[k], lookFrom(k, 1)) - bearing(lookFrom(k, -1), points[k]) + 540) % 360) - 180
+    const turn = turnDirection(change)
+    // Mesh vertices on open water have many lines but are not junctions. Branches are
+    // counted by segment: a snapped end adds virtual edges along an existing one.
+    const onWater = graph.segments[route.edges[k - 1]]?.openWater || graph.segments[route.edges[k]]?.openWater
+    const branches = new Set((graph.adj.get(route.path[k]) || []).map(([, , segment]) => segment)).size
+    const junction = !onWater && branches > 2
+    if (label !== undefined) current = label
+
+    const sharp = turn === 'port' || turn === 'starboard' || turn.startsWith('sharp')
+    if (!renamed && !sharp && !(junction && turn !== 'straight')) continue
+
+    // A bend drawn with several nodes is one manoeuvre: keep its sharpest node
+    const last = maneuvers[maneuvers.length - 1]
+    if (maneuvers.length > 1 && along[k] - along[last.index] < 2 * TURN_LOOK_METERS) {
+      if (Math.abs(change) > Math.abs(last.bearingChange)) {
+        last.index = k
+        last.turn = turn
+        last.bearingChange = change
+      }
+      last.renamed = last.renamed || renamed
+      last.junction = last.junction || junction
+      last.waterway = current
+      continue
+    }
+    maneuvers.push({ index: k, turn, bearingChange: change, waterway: current, renamed, junction })
+  }
+  return maneuvers
+}
+
+// One way to sail from start to end, with everything needed to compare it
+export interface RouteVariant extends PathTimeProfile {
+  coordinates: [number, number][]
+  meters: number
+  locks: number
+  bridges: number
+  minClearance?: number // Lowest fixed bridge on the route, meters
+  passesAvoided: boolean // No way around an avoid area or avoided object was found
+  maneuvers: RouteManeuver[]
+}
+
+const buildVariant = (
+  graph: GraphView,
+  route: PathSearchResult,
+  model?: CostModel,
+  avoided?: ((segment: number, to: number) => boolean) | null
+): RouteVariant => ({
+  // Convert node IDs to coordinates - this will now follow waterways!
+  coordinates: route.path.map(id => {
+    const coord = graph.coords.get(id)!
+    return [coord[0], coord[1]] as [number, number] // [lat, lng]
+  }),
+  meters: route.meters,
+  ...(model ? profilePath(graph, route, model) : { times: [], seconds: 0, passages: [], restrictions: [] }),
+  ...summarisePath(graph, route),
+  passesAvoided: !!avoided && route.edges.some((segment, i) => avoided(segment, route.path[i + 1])),
+  maneuvers: findManeuvers(graph, route)
+})
+
+export interface ComputedRoute extends RouteVariant {
+  expanded: number
+  startNode: { id: number, snapped: boolean, at: [number, number] }
+  endNode: { id: number, snapped: boolean, at: [number, number] }
+  detours: ConstraintViolation[] // Constraints that forced the route away from the shortest path
+  alternatives: RouteVariant[]
+}
+
+// Graph building, snapping and path search for one request. Runs inside the routing
+// worker; the returned object only holds structured-clone friendly data. The graph
+// itself is not returned: with a cache it is shared by many requests.
+export const computeRouteOnElements = async (
+  elements: any[],
+  start: [number, number],
+  end: [number, number],
+  options: RouteComputeOptions = {}
+): Promise<ComputedRoute | null> => {
+  console.log('🔍 Building graph from', elements.length, 'waterway elements')
+  
+  // Build graph from waterways data, or extend the cached one
+  const graph = await (options.graphFor || buildGraphFromWaterways)(elements, options)
   
-  if (!prev[endId]) {
-    console.log(`❌ No path found to end node ${endId}`)
+  if (graph.segments.length === 0) {
+    console.log('❌ No graph segments available - cannot create route')
     return null
   }
+
+  console.log('📍 Graph built with', graph.nodes.size, 'nodes and', graph.segments.length, 'segments')
+
+  // Find nearest graph nodes for start and end points
+  const startSnap = findNearestGraphNode({lat: start[0], lng: start[1]}, graph, true)
+  const endSnap = findNearestGraphNode({lat: end[0], lng: end[1]}, graph, true)
+
+  if (!startSnap || !endSnap) {
+    console.log('❌ Could not find nearest graph nodes')
+    return null
+  }
+
+  // Searching across networks would only expand the whole start network
+  const components = findComponents(graph)
+  const componentOf = (snap: GraphSnap) => components.of[snap.id ?? graph.segments[snap.segment].idA]
+  if (componentOf(startSnap) !== componentOf(endSnap)) {
+    console.log('❌ Start and end are on unconnected networks:', componentOf(startSnap), componentOf(endSnap))
+    throw createUnconnectedNetworksError()
+  }
+
+  // Searches run on a view with the snapped points as virtual nodes
+  const { view, nodes: [startNode, endNode] } = createSnapView(graph, [startSnap, endSnap])
+
+  console.log('📍 Start node:', startNode.id, 'at', startNode.at, 'snapped:', startNode.snapped)
+  console.log('📍 End node:', endNode.id, 'at', endNode.at, 'snapped:', endNode.snapped)
+
+  // Find the fastest path using A*, skipping edges the boat does not fit through.
+  // Without a cost model this is the shortest path by distance.
+  const profile = options.params?.profile
+  const model = options.params?.costModel
+  // Avoid areas and objects make their edges much more expensive rather than closing them
+  const avoid = options.params?.avoid
+  const avoided = avoid && !isAvoidSetEmpty(avoid) ? createAvoidCheck(view, avoid) : null
+  const cost = withAvoidPenalty(model ? createTimeCost(view, model) : {}, avoided)
+  // Seasonal closures are evaluated at the planned departure (now when not given)
+  const allowed = createAccessFilter(view, new Date(options.params?.departure ?? Date.now()), profile)
+  const filter = profile ? createProfileFilter(view, profile) : null
+  const route = await findShortestPathAsync(startNode.id, endNode.id, view, {
+    ...options,
+    ...cost,
+    canTraverse: allOf(allowed, filter?.canTraverse)
+  })
   
-  // Reconstruct path - EXACTLY like HTML version
-  const path: number[] = []
-  for (let u = endId; u !== 0; u = prev[u]) {
-    path.push(u)
-    if (u === startId) break
+  // When the boat profile excluded edges, compare with the route ignoring boat
+  // dimensions to explain which constraints forced the detour
+  let detours: ConstraintViolation[] = []
+  if (profile && filter?.blocked()) {
+    const unrestricted = await findShortestPathAsync(startNode.id, endNode.id, view, { ...cost, canTraverse: allowed, signal: options.signal })
+    // Costs are meters, or seconds with a cost model; ignore differences below one unit
+    if (unrestricted && (!route || unrestricted.cost < route.cost - 1)) {
+      detours = findPathViolations(view, unrestricted, profile)
+      console.log('↪️ Detour forced by:', detours.map(describeViolation))
+    }
+    if (!route && detours.length > 0) throw createRouteBlockedError(detours)
   }
-  path.reverse()
   
-  console.log(`✅ Path found: ${path.length} nodes, total distance: ${Math.round(dist[endId])}m`)
-  return { path, meters: dist[endId] }
+  if (!route) {
+    console.log('❌ No path found between start and end nodes')
+    return null
+  }
+
+  const alternatives = options.params?.alternatives
+    ? await findAlternativePaths(startNode.id, endNode.id, view, route, options.params.alternatives, {
+        ...cost,
+        canTraverse: allOf(allowed, filter?.canTraverse),
+        signal: options.signal
+      })
+    : []
+
+  return {
+    ...buildVariant(view, route, model, avoided),
+    expanded: route.expanded,
+    startNode,
+    endNode,
+    detours,
+    alternatives: alternatives.map(alternative => buildVariant(view, alternative, model, avoided))
+  }
+}
+
+// Signature shared by the in-thread computation and the worker client
+export type RouteRunner = (
+  elements: any[],
+  start: [number, number],
+  end: [number, number],
+  options?: RouteComputeOptions
+) => Promise<ComputedRoute | null>
+
+export interface RouteRequestOptions extends RouteComputeOptions {
+  runner?: RouteRunner
+  // Whether the runner's graph cache already holds everything in the region; the
+  // corridor is not fetched again when it does
+  isRegionCached?: (region: Bounds) => Promise<boolean>
 }
 
-// Corridor-based waterway prefetching - EXACTLY like kanaalkaart
+// Corridor around start and end, clamped to valid coordinates
+export const corridorBounds = (start: [number, number], end: [number, number], pad: number): Bounds => ({
+  s: Math.max(-90, Math.min(start[0], end[0]) - pad),
+  w: Math.max(-180, Math.min(start[1], end[1]) - pad),
+  n: Math.min(90, Math.max(start[0], end[0]) + pad),
+  e: Math.min(180, Math.max(start[1], end[1]) + pad)
+})
+
+// Corridor query: waterways plus the bridges and locks that restrict them
+export const corridorQuery = (bbox: string) => `[out:json][timeout:30];(
+    way["waterway"~"^(canal|river|stream|drain|ditch)$"](${bbox});
+    way["bridge"]["seamark:bridge:clearance_height"](${bbox});
+    way["bridge"]["maxheight"](${bbox});
+    way["bridge"]["seamark:type"="bridge"](${bbox});
+    way["bridge"="movable"](${bbox});
+    way["bridge:movable"](${bbox});
+    way["seamark:bridge:movable"](${bbox});
+    way["bridge"]["seamark:bridge:category"](${bbox});
+    node["seamark:type"="bridge"](${bbox});
+    node["waterway"="lock_gate"](${bbox});
+    node["lock"="yes"](${bbox});
+    way["natural"="water"]["water"~"^(lake|reservoir|lagoon|oxbow)$"](${bbox});
+    relation["natural"="water"]["water"~"^(lake|reservoir|lagoon|oxbow)$"](${bbox});
+    way["place"="sea"](${bbox});
+    relation["place"="sea"](${bbox});
+    way["seamark:type"="fairway"](${bbox});
+    relation["seamark:type"="fairway"](${bbox});
+  ); out tags geom;`
+
+// Corridor-based waterway prefetching - EXACTLY like kanaalkaart. `complete` is false
+// when some tiles of the fallback could not be fetched.
 export const prefetchWaterwaysForCorridor = async (
   startLL: {lat: number, lng: number}, 
   endLL: {lat: number, lng: number}, 
@@ -284,31 +1525,19 @@ export const prefetchWaterwaysForCorridor = async (
   console.log('🔄 Prefetching waterways for corridor from', startLL, 'to', endLL)
   
   // Calculate corridor bounds with padding
-  let s = Math.min(startLL.lat, endLL.lat) - pad
-  let w = Math.min(startLL.lng, endLL.lng) - pad
-  let n = Math.max(startLL.lat, endLL.lat) + pad
-  let e = Math.max(startLL.lng, endLL.lng) + pad
-  
-  // Clamp to valid bounds
-  s = Math.max(-90, s)
-  n = Math.min(90, n)
-  w = Math.max(-180, w)
-  e = Math.min(180, e)
+  const { s, w, n, e } = corridorBounds([startLL.lat, startLL.lng], [endLL.lat, endLL.lng], pad)
   
   console.log('📐 Corridor bounds:', { s, w, n, e })
   
   // Create waterways query for the corridor
   const bbox = `${s},${w},${n},${e}`
-  const query = `[
-    out:json][timeout:30];
-    way["waterway"~"^(canal|river|stream|drain|ditch)$"](${bbox});
-    out tags geom;`
+  const query = corridorQuery(bbox)
   
   try {
     const key = `corr:${[s, w, n, e].map(v => v.toFixed(3)).join(',')}`
     const data = await fetchOverpass(query, `w:${key}`)
     console.log('✅ Corridor waterways fetched:', data.elements?.length || 0, 'elements')
-    return data
+    return { ...data, complete: true }
   } catch (err) {
     console.log('⚠️ Large corridor failed, trying smaller tiles...')
     
@@ -316,15 +1545,13 @@ export const prefetchWaterwaysForCorridor = async (
     const step = 0.25 // ~28 km tiles
     const tasks = []
     const allElements: any[] = []
+    let failedTiles = 0
     
     for (let lat = s; lat < n; lat = Math.min(n, lat + step)) {
       for (let lon = w; lon < e; lon = Math.min(e, lon + step)) {
         const s2 = lat, w2 = lon, n2 = Math.min(n, lat + step), e2 = Math.min(e, lon + step)
         const bbox2 = `${s2},${w2},${n2},${e2}`
-        const query2 = `[
-          out:json][timeout:30];
-          way["waterway"~"^(canal|river|stream|drain|ditch)$"](${bbox2});
-          out tags geom;`
+        const query2 = corridorQuery(bbox2)
         
         tasks.push((async () => {
           try {
@@ -334,6 +1561,7 @@ export const prefetchWaterwaysForCorridor = async (
               allElements.push(...data2.elements)
             }
           } catch (e) {
+            failedTiles++
             console.warn('Failed to fetch tile:', e)
           }
         })())
@@ -342,7 +1570,156 @@ export const prefetchWaterwaysForCorridor = async (
     
     await Promise.allSettled(tasks)
     console.log('✅ Corridor waterways fetched via tiles:', allElements.length, 'elements')
-    return { elements: allElements }
+    return { elements: allElements, complete: failedTiles === 0 }
+  }
+}
+
+export interface RouteStep {
+  waterway: string // Waterway sailed during this step
+  instruction: string // What to do at the end of the step
+  distance: number // Meters sailed in this step
+  estimatedTime: number // Minutes, including any delay
+  eta: number // Expected end of the step (ms since epoch), waits included
+  at: [number, number] // Where the instruction applies
+  index: number // Coordinate of `at` in the route
+  turn?: TurnDirection
+  delay?: number // Minutes waiting at the passage ending this step
+  passage?: RoutePassage
+  leg?: number // Leg of a multi-stop route this step belongs to
+}
+
+const TURN_PHRASES: Record<TurnDirection, string> = {
+  'straight': 'Continue',
+  'slight-starboard': 'Bear to starboard',
+  'starboard': 'Turn to starboard',
+  'sharp-starboard': 'Turn sharply to starboard',
+  'slight-port': 'Bear to port',
+  'port': 'Turn to port',
+  'sharp-port': 'Turn sharply to port'
+}
+
+export const describeManeuver = (maneuver: RouteManeuver) => {
+  const phrase = TURN_PHRASES[maneuver.turn]
+  if (maneuver.renamed && maneuver.waterway) return `${phrase} onto ${maneuver.waterway}`
+  if (maneuver.junction) return `${phrase} at the junction${maneuver.waterway ? ` to stay on ${maneuver.waterway}` : ''}`
+  return maneuver.waterway ? `${phrase} to stay on ${maneuver.waterway}` : phrase
+}
+
+// Steps end at every manoeuvre, lock and movable bridge, so each shows the sailing time
+// up to it (and the expected wait at a passage). The last step arrives at the destination.
+const buildSteps = (route: RouteVariant, departure: number): RouteStep[] => {
+  const { coordinates } = route
+  const along = [0]
+  for (let i = 1; i < coordinates.length; i++) along.push(along[i - 1] + haversine(coordinates[i - 1], coordinates[i]))
+  const indexAt = (distance: number) => {
+    const index = along.findIndex(d => d >= distance - 0.5)
+    return index < 0 ? coordinates.length - 1 : index
+  }
+
+  const events = [
+    ...route.maneuvers.slice(1).map(maneuver => ({ distance: along[maneuver.index], maneuver, passage: undefined })),
+    ...route.passages.map(passage => ({ distance: passage.distance, maneuver: undefined, passage }))
+  ].sort((a, b) => a.distance - b.distance)
+
+  const steps: RouteStep[] = []
+  let waterway = route.maneuvers[0]?.waterway
+  let covered = 0
+  let departed = 0
+  const push = (step: Omit<RouteStep, 'waterway' | 'distance' | 'estimatedTime' | 'eta'>, distance: number, seconds: number) => {
+    steps.push({
+      waterway: waterway || 'Waterway Network',
+      ...step,
+      distance: Math.round(distance - covered),
+      estimatedTime: Math.round((seconds - departed) / 60),
+      eta: departure + seconds * 1000
+    })
+    covered = distance
+    departed = seconds
+  }
+
+  for (const { distance, maneuver, passage } of events) {
+    if (passage) {
+      const label = passage.name || (passage.kind === 'lock' ? 'lock' : 'bridge')
+      push({
+        instruction: passage.kind === 'lock' ? `Pass lock ${label}` : `Wait for bridge ${label} to open`,
+        at: passage.at,
+        index: indexAt(distance),
+        delay: Math.round(passage.delaySeconds / 60),
+        passage
+      }, distance, passage.time + passage.delaySeconds)
+    } else if (maneuver) {
+      push({
+        instruction: describeManeuver(maneuver),
+        at: coordinates[maneuver.index],
+        index: maneuver.index,
+        turn: maneuver.turn
+      }, distance, route.times[maneuver.index] ?? 0)
+      if (maneuver.waterway) waterway = maneuver.waterway
+    }
+  }
+
+  push({
+    instruction: 'Arrive at destination',
+    at: coordinates[coordinates.length - 1],
+    index: coordinates.length - 1
+  }, route.meters, route.seconds)
+  return steps
+}
+
+// A route as shown to the user; alternatives share this shape so one can replace another
+export interface RouteOption {
+  coordinates: [number, number][]
+  steps: RouteStep[]
+  totalDistance: number // Meters
+  totalTime: number // Minutes, waits included
+  totalDelay: number // Minutes waiting at bridges and locks
+  passages: RoutePassage[]
+  speedRestrictions: SpeedRestriction[]
+  times: number[] // Cumulative seconds per coordinate, for ETAs along the route
+  locks: number
+  bridges: number
+  minClearance?: number
+  passesAvoided: boolean
+}
+
+const describeVariant = (variant: RouteVariant, departure: number): RouteOption => ({
+  coordinates: variant.coordinates,
+  steps: buildSteps(variant, departure),
+  totalDistance: variant.meters,
+  totalTime: Math.round(variant.seconds / 60), // Convert to minutes
+  totalDelay: Math.round(variant.passages.reduce((sum, p) => sum + p.delaySeconds, 0) / 60),
+  passages: variant.passages,
+  speedRestrictions: variant.restrictions,
+  times: variant.times,
+  locks: variant.locks,
+  bridges: variant.bridges,
+  minClearance: variant.minClearance,
+  passesAvoided: variant.passesAvoided
+})
+
+const pickOption = (route: RouteOption): RouteOption => ({
+  coordinates: route.coordinates,
+  steps: route.steps,
+  totalDistance: route.totalDistance,
+  totalTime: route.totalTime,
+  totalDelay: route.totalDelay,
+  passages: route.passages,
+  speedRestrictions: route.speedRestrictions,
+  times: route.times,
+  locks: route.locks,
+  bridges: route.bridges,
+  minClearance: route.minClearance,
+  passesAvoided: route.passesAvoided
+})
+
+// Make alternative `index` the active route; the previous route takes its place in the list
+export const selectAlternative = <T extends RouteOption & { alternatives: RouteOption[] }>(route: T, index: number): T => {
+  const chosen = route.alternatives[index]
+  if (!chosen) return route
+  return {
+    ...route,
+    ...chosen,
+    alternatives: route.alternatives.map((alternative, i) => i === index ? pickOption(route) : alternative)
   }
 }
 
@@ -352,14 +1729,22 @@ export const findWaterwayRoute = async (
   end: [number, number], 
   waterwaysData: any, 
   boatSpeed: number = 8.5,
-  fetchOverpass?: (query: string, key: string) => Promise<any>
+  fetchOverpass?: (query: string, key: string) => Promise<any>,
+  options: RouteRequestOptions = {}
 ) => {
   console.log('🛣️ Finding waterway route from', start, 'to', end)
   
+  const { runner = computeRouteOnElements, isRegionCached, ...computeOptions } = options
   let dataToUse = waterwaysData
+  const corridor = corridorBounds(start, end, 0.12)
+  let region: Bounds | undefined
+  const cached = !!fetchOverpass && !!isRegionCached && await isRegionCached(corridor)
   
-  // ALWAYS prefetch for corridor if we have fetchOverpass function - like kanaalkaart.html
-  if (fetchOverpass) {
+  if (cached) {
+    console.log('⚡ Corridor already in the routing graph cache, skipping Overpass')
+  } else if (fetchOverpass) {
+    // ALWAYS prefetch for corridor if we have fetchOverpass function - like kanaalkaart.html
+    computeOptions.onProgress?.({ phase: 'fetching', fraction: 0 })
     console.log('🔄 Prefetching waterways for corridor (like kanaalkaart.html)...')
     try {
       const corridorData = await prefetchWaterwaysForCorridor(
@@ -368,11 +1753,13 @@ export const findWaterwayRoute = async (
         fetchOverpass,
         0.12 // ~13 km padding like kanaalkaart
       )
+      if (corridorData.complete) region = corridor
       
       // Merge with existing data if available
       if (dataToUse && dataToUse.elements) {
-        const existingIds = new Set(dataToUse.elements.map((el: any) => el.id))
-        const newElements = corridorData.elements.filter((el: any) => !existingIds.has(el.id))
+        // Node and way ids overlap in OSM, so key on both
+        const existingIds = new Set(dataToUse.elements.map((el: any) => `${el.type}/${el.id}`))
+        const newElements = corridorData.elements.filter((el: any) => !existingIds.has(`${el.type}/${el.id}`))
         dataToUse = {
           elements: [...dataToUse.elements, ...newElements]
         }
@@ -386,71 +1773,159 @@ export const findWaterwayRoute = async (
     }
   }
   
-  if (!dataToUse || !dataToUse.elements || dataToUse.elements.length === 0) {
+  if (computeOptions.signal?.aborted) throw createAbortError()
+  
+  if (!cached && (!dataToUse || !dataToUse.elements || dataToUse.elements.length === 0)) {
     console.log('❌ No waterways data available - cannot create route')
     return null
   }
 
-  console.log('🔍 Building graph from', dataToUse.elements.length, 'waterway elements')
+  // Minimise expected travel time; callers may pass their own waits via params.costModel
+  const costModel = computeOptions.params?.costModel || createCostModel(boatSpeed)
+  const departure = computeOptions.params?.departure ?? Date.now()
+  const params: RouteParams = { ...computeOptions.params, costModel, region, departure }
+
+  // Graph building and path search (normally inside the routing worker)
+  const route = await runner(dataToUse?.elements || [], start, end, { ...computeOptions, params })
   
-  // Build graph from waterways data
-  const graph = await buildGraphFromWaterways(dataToUse.elements)
+  if (!route) return null
   
-  if (graph.segments.length === 0) {
-    console.log('❌ No graph segments available - cannot create route')
-    return null
-  }
+  const { coordinates } = route
 
-  console.log('📍 Graph built with', graph.nodes.size, 'nodes and', graph.segments.length, 'segments')
+  console.log('✅ Route coordinates:', coordinates.length, 'points')
+  console.log('✅ First coordinate:', coordinates[0])
+  console.log('✅ Last coordinate:', coordinates[coordinates.length - 1])
+  console.log('✅ Total distance:', Math.round(route.meters), 'meters')
 
-  // Find nearest graph nodes for start and end points
-  const startNode = findNearestGraphNode({lat: start[0], lng: start[1]}, graph, true)
-  const endNode = findNearestGraphNode({lat: end[0], lng: end[1]}, graph, true)
+  console.log('✅ Expected time:', Math.round(route.seconds / 60), 'minutes incl.', route.passages.length, 'bridge/lock passages')
 
-  if (!startNode || !endNode) {
-    console.log('❌ Could not find nearest graph nodes')
-    return null
+  if (route.alternatives.length > 0) {
+    console.log('🔀 Alternatives:', route.alternatives.map(alt => `${Math.round(alt.meters)}m / ${Math.round(alt.seconds / 60)}min`))
   }
 
-  console.log('📍 Start node:', startNode.id, 'at', startNode.at, 'snapped:', startNode.snapped)
-  console.log('📍 End node:', endNode.id, 'at', endNode.at, 'snapped:', endNode.snapped)
-
-  // Find shortest path using Dijkstra's algorithm
-  const route = findShortestPath(startNode.id, endNode.id, graph)
-  
-  if (!route) {
-    console.log('❌ No path found between start and end nodes')
-    return null
+  const routeResult = {
+    ...describeVariant(route, departure),
+    alternatives: route.alternatives.map(alternative => describeVariant(alternative, departure)),
+    startNode: route.startNode,
+    endNode: route.endNode,
+    expandedNodes: route.expanded,
+    detours: route.detours
   }
 
-  // Convert node IDs to coordinates - this will now follow waterways!
-  const coordinates: [number, number][] = route.path.map(id => {
-    const coord = graph.coords.get(id)!
-    return [coord[0], coord[1]] // [lat, lng]
-  })
+  return routeResult
+}
 
-  console.log('✅ Route coordinates:', coordinates.length, 'points')
-  console.log('✅ First coordinate:', coordinates[0])
-  console.log('✅ Last coordinate:', coordinates[coordinates.length - 1])
-  console.log('✅ Total distance:', Math.round(route.meters), 'meters')
+export type WaterwayRoute = NonNullable<Awaited<ReturnType<typeof findWaterwayRoute>>>
 
-  // Convert boat speed from km/h to m/s for calculation
-  const speedMps = (boatSpeed * 1000) / 3600
-  
-  const routeResult = {
-    coordinates,
-    steps: [{
-      waterway: 'Waterway Network',
-      instruction: 'Follow waterways to destination',
-      distance: Math.round(route.meters),
-      estimatedTime: Math.round(route.meters / speedMps / 60) // Convert to minutes
-    }],
-    totalDistance: route.meters,
-    totalTime: Math.round(route.meters / speedMps / 60), // Convert to minutes
-    graph: graph, // Include graph for POI extraction
-    startNode: startNode,
-    endNode: endNode
+// One leg of a multi-stop route, between two consecutive stops
+export interface RouteLeg {
+  from: [number, number]
+  to: [number, number]
+  distance: number // Meters
+  time: number // Minutes, waits included
+  delay: number // Minutes waiting at bridges and locks
+}
+
+// Legs stitched into one route
+export type MultiStopRoute = WaterwayRoute & { legs: RouteLeg[] }
+
+// Route through an ordered list of stops (start, intermediate stops, destination).
+// Every leg is routed with findWaterwayRoute and the legs are stitched together;
+// returns null when any leg has no route.
+export const findMultiStopRoute = async (
+  stops: [number, number][],
+  waterwaysData: any,
+  boatSpeed: number = 8.5,
+  fetchOverpass?: (query: string, key: string) => Promise<any>,
+  options: RouteRequestOptions = {}
+): Promise<MultiStopRoute | null> => {
+  if (stops.length < 2) return null
+
+  const legs: WaterwayRoute[] = []
+  // Each leg departs when the previous one arrives, so its closures are checked at that time
+  let legDeparture = options.params?.departure ?? Date.now()
+  for (let i = 0; i < stops.length - 1; i++) {
+    console.log(`🧭 Routing leg ${i + 1} of ${stops.length - 1}`)
+    const legRoute = await findWaterwayRoute(stops[i], stops[i + 1], waterwaysData, boatSpeed, fetchOverpass, {
+      ...options,
+      params: { ...options.params, departure: legDeparture },
+      onProgress: options.onProgress && ((progress) => options.onProgress!({ ...progress, leg: i, legs: stops.length - 1 }))
+    })
+    if (!legRoute) {
+      console.log(`❌ No route for leg ${i + 1}`)
+      return null
+    }
+    legs.push(legRoute)
+    legDeparture += (legRoute.times[legRoute.times.length - 1] ?? 0) * 1000
   }
 
-  return routeResult
+  const stitched: MultiStopRoute = {
+    coordinates: [],
+    steps: [],
+    totalDistance: 0,
+    totalTime: 0,
+    totalDelay: 0,
+    passages: [],
+    speedRestrictions: [],
+    times: [],
+    locks: 0,
+    bridges: 0,
+    minClearance: undefined,
+    passesAvoided: false,
+    // Alternatives are only searched per leg, so they apply to single-leg routes
+    alternatives: legs.length === 1 ? legs[0].alternatives : [],
+    startNode: legs[0].startNode,
+    endNode: legs[legs.length - 1].endNode,
+    expandedNodes: 0,
+    detours: [],
+    legs: []
+  }
+
+  legs.forEach((leg, i) => {
+    const distanceOffset = stitched.totalDistance
+    const timeOffset = stitched.times.length ? stitched.times[stitched.times.length - 1] : 0
+
+    // Consecutive legs meet at the same stop; drop the duplicated joint
+    const last = stitched.coordinates[stitched.coordinates.length - 1]
+    const skip = last && last[0] === leg.coordinates[0][0] && last[1] === leg.coordinates[0][1] ? 1 : 0
+    const indexOffset = stitched.coordinates.length - skip
+    stitched.coordinates.push(...leg.coordinates.slice(skip))
+    stitched.times.push(...leg.times.slice(skip).map(t => t + timeOffset))
+
+    leg.steps.forEach((step, j) => {
+      const isLast = j === leg.steps.length - 1
+      stitched.steps.push({
+        ...step,
+        instruction: isLast && i < legs.length - 1 ? `Arrive at stop ${i + 1}` : step.instruction,
+        // Already counted from the leg's own departure
+        eta: step.eta,
+        index: step.index + indexOffset,
+        leg: i
+      })
+    })
+    stitched.passages.push(...leg.passages.map(p => ({ ...p, distance: p.distance + distanceOffset, time: p.time + timeOffset })))
+    stitched.speedRestrictions.push(...leg.speedRestrictions.map(r => ({ ...r, distance: r.distance + distanceOffset })))
+    stitched.detours.push(...leg.detours)
+
+    stitched.totalDistance += leg.totalDistance
+    stitched.totalTime += leg.totalTime
+    stitched.totalDelay += leg.totalDelay
+    stitched.locks += leg.locks
+    stitched.bridges += leg.bridges
+    stitched.passesAvoided = stitched.passesAvoided || leg.passesAvoided
+    if (leg.minClearance !== undefined) {
+      stitched.minClearance = Math.min(stitched.minClearance ?? Infinity, leg.minClearance)
+    }
+    stitched.expandedNodes += leg.expandedNodes
+    stitched.legs.push({
+      from: stops[i],
+      to: stops[i + 1],
+      distance: leg.totalDistance,
+      time: leg.totalTime,
+      delay: leg.totalDelay
+    })
+  })
+
+  console.log(`✅ Multi-stop route: ${legs.length} legs, ${Math.round(stitched.totalDistance)} m, ${stitched.totalTime} min`)
+  return stitched
 }
@@ -0,0 +1,336 @@
+// Long-lived routing graph for VaarApp
+// Overpass elements are merged into one graph keyed by OSM id instead of rebuilding it for
+// every route, and the graph is kept in IndexedDB as typed arrays between sessions
+
+import {
+  Bounds, Graph, GraphBuildState, OpenWaterArea, RouteComputeOptions, createGraph, createGraphBuildState,
+  graphAddEdge, graphAddNode, mergeIntoGraph
+} from './routing'
+import { CACHE_TTLS } from './overpassCache'
+import { Obstacle } from './vesselConstraints'
+import { WaterwayAccess } from './waterwayAccess'
+
+const DB_NAME = 'vaarapp-routing'
+const STORE = 'graphs'
+const RECORD_KEY = 'waterways'
+const FORMAT_VERSION = 6
+const SAVE_DELAY_MS = 2000
+// Corridors are fetched again once the Overpass cache would refresh their locks and bridges
+const REGION_MAX_AGE_MS = CACHE_TTLS.structures.fresh
+const MAX_SEGMENTS = 300000 // Past this the graph is started over instead of grown
+const COORD_SCALE = 1e7 // OSM stores 7 decimals, so coordinates survive the round trip exactly
+
+// An area whose complete corridor data has been merged
+interface CachedRegion extends Bounds {
+  fetchedAt: number
+}
+
+interface CachedGraph {
+  graph: Graph
+  build: GraphBuildState
+  regions: CachedRegion[]
+}
+
+// Stored record: typed arrays for the bulk of the graph, JSON for strings and tag objects
+interface StoredGraph {
+  version: number
+  meta: string // JSON StoredMeta
+  nodes: ArrayBuffer // Int32 lat, lon * COORD_SCALE for node ids 1..n
+  segments: ArrayBuffer // Int32 idA, idB, name, ref, access per segment (-1 = none)
+  wayIds: ArrayBuffer // Float64 per segment (NaN = none)
+  speeds: ArrayBuffer // Float32 maxSpeed per segment (0 = none)
+  oneway: ArrayBuffer // Int8 per segment
+  flags: ArrayBuffer // Uint8 per segment, SEGMENT_GAP | SEGMENT_OPEN_WATER
+  segmentObstacles: ArrayBuffer // Int32 pairs: segment index, obstacle index
+  nodeObstacles: ArrayBuffer // Int32 pairs: node id, obstacle index
+  seen: ArrayBuffer // Float64 OSM ids, nodes negated
+}
+
+interface StoredMeta {
+  names: string[] // Waterway names and refs
+  access: WaterwayAccess[]
+  obstacles: Obstacle[]
+  pendingNodes: any[]
+  pendingBridges: any[]
+  regions: CachedRegion[]
+  waterAreas: OpenWaterArea[]
+  seenRelations: number[]
+}
+
+const SEGMENT_GAP = 1
+const SEGMENT_OPEN_WATER = 2
+
+const createCachedGraph = (): CachedGraph => ({ graph: createGraph(), build: createGraphBuildState(), regions: [] })
+
+let cache: CachedGraph | null = null
+let loading: Promise<CachedGraph> | null = null
+let saveTimer: ReturnType<typeof setTimeout> | null = null
+
+const hasIndexedDB = () => typeof indexedDB !== 'undefined'
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1)
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE)
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+const readRecord = async (): Promise<StoredGraph | undefined> => {
+  const db = await openDatabase()
+  try {
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(STORE, 'readonly').objectStore(STORE).get(RECORD_KEY)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+const writeRecord = async (record: StoredGraph) => {
+  const db = await openDatabase()
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE, 'readwrite')
+      transaction.objectStore(STORE).put(record, RECORD_KEY)
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+// Pack the graph into typed arrays. Adjacency and the spatial index are rebuilt on load.
+export const encodeGraph = ({ graph, build, regions }: CachedGraph): StoredGraph => {
+  const nodeCount = graph.nextId - 1
+  const nodes = new Int32Array(nodeCount * 2)
+  for (const [id, [lat, lon]] of graph.coords) {
+    nodes[(id - 1) * 2] = Math.round(lat * COORD_SCALE)
+    nodes[(id - 1) * 2 + 1] = Math.round(lon * COORD_SCALE)
+  }
+
+  const names: string[] = [], nameIndex = new Map<string, number>()
+  const access: WaterwayAccess[] = [], accessIndex = new Map<WaterwayAccess, number>()
+  const obstacles: Obstacle[] = [], obstacleIndex = new Map<Obstacle, number>()
+  const indexOf = <T>(value: T, list: T[], index: Map<T, number>) => {
+    if (!index.has(value)) {
+      index.set(value, list.length)
+      list.push(value)
+    }
+    return index.get(value)!
+  }
+
+  const count = graph.segments.length
+  const segments = new Int32Array(count * 5)
+  const wayIds = new Float64Array(count)
+  const speeds = new Float32Array(count)
+  const oneway = new Int8Array(count)
+  const flags = new Uint8Array(count)
+  const segmentObstacles: number[] = []
+  graph.segments.forEach((seg, i) => {
+    segments[i * 5] = seg.idA
+    segments[i * 5 + 1] = seg.idB
+    segments[i * 5 + 2] = seg.name !== undefined ? indexOf(seg.name, names, nameIndex) : -1
+    segments[i * 5 + 3] = seg.ref !== undefined ? indexOf(seg.ref, names, nameIndex) : -1
+    segments[i * 5 + 4] = seg.access ? indexOf(seg.access, access, accessIndex) : -1
+    wayIds[i] = seg.wayId ?? NaN
+    speeds[i] = seg.maxSpeed ?? 0
+    oneway[i] = seg.oneway ?? 0
+    flags[i] = (seg.gap ? SEGMENT_GAP : 0) | (seg.openWater ? SEGMENT_OPEN_WATER : 0)
+    for (const obstacle of seg.obstacles || []) segmentObstacles.push(i, indexOf(obstacle, obstacles, obstacleIndex))
+  })
+
+  const nodeObstacles: number[] = []
+  for (const [id, list] of graph.nodeObstacles) {
+    for (const obstacle of list) nodeObstacles.push(id, indexOf(obstacle, obstacles, obstacleIndex))
+  }
+
+  const seen = new Float64Array(build.seen.size)
+  const seenRelations: number[] = []
+  let n = 0
+  for (const key of build.seen) {
+    const [type, id] = key.split('/')
+    if (type === 'node' || type === 'way') seen[n++] = type === 'node' ? -Number(id) : Number(id)
+    else if (type === 'relation') seenRelations.push(Number(id))
+  }
+
+  const meta: StoredMeta = {
+    names,
+    access,
+    obstacles,
+    pendingNodes: build.pendingNodes,
+    pendingBridges: build.pendingBridges,
+    regions,
+    waterAreas: build.waterAreas,
+    seenRelations
+  }
+
+  return {
+    version: FORMAT_VERSION,
+    meta: JSON.stringify(meta),
+    nodes: nodes.buffer,
+    segments: segments.buffer,
+    wayIds: wayIds.buffer,
+    speeds: speeds.buffer,
+    oneway: oneway.buffer,
+    flags: flags.buffer,
+    segmentObstacles: new Int32Array(segmentObstacles).buffer,
+    nodeObstacles: new Int32Array(nodeObstacles).buffer,
+    seen: seen.slice(0, n).buffer
+  }
+}
+
+export const decodeGraph = (record: StoredGraph): CachedGraph => {
+  const meta: StoredMeta = JSON.parse(record.meta)
+  const graph = createGraph()
+  const build = createGraphBuildState()
+
+  // Node ids come back in the same order, so stored ids stay valid
+  const nodes = new Int32Array(record.nodes)
+  for (let i = 0; i < nodes.length; i += 2) {
+    graphAddNode(nodes[i] / COORD_SCALE, nodes[i + 1] / COORD_SCALE, graph)
+  }
+
+  const segments = new Int32Array(record.segments)
+  const wayIds = new Float64Array(record.wayIds)
+  const speeds = new Float32Array(record.speeds)
+  const oneway = new Int8Array(record.oneway)
+  const flags = new Uint8Array(record.flags)
+  for (let i = 0; i < wayIds.length; i++) {
+    const direction = oneway[i] === 1 || oneway[i] === -1 ? oneway[i] as 1 | -1 : undefined
+    const index = graphAddEdge(segments[i * 5], segments[i * 5 + 1], graph, isNaN(wayIds[i]) ? undefined : wayIds[i], direction)
+    const seg = graph.segments[index]
+    if (segments[i * 5 + 2] >= 0) seg.name = meta.names[segments[i * 5 + 2]]
+    if (segments[i * 5 + 3] >= 0) seg.ref = meta.names[segments[i * 5 + 3]]
+    if (segments[i * 5 + 4] >= 0) seg.access = meta.access[segments[i * 5 + 4]]
+    if (speeds[i] > 0) seg.maxSpeed = speeds[i]
+    if (flags[i] & SEGMENT_GAP) seg.gap = true
+    if (flags[i] & SEGMENT_OPEN_WATER) seg.openWater = true
+  }
+
+  // Carrier counts are the number of edges and nodes referring to each obstacle
+  const carry = (obstacle: Obstacle) => build.carriers.set(obstacle, (build.carriers.get(obstacle) || 0) + 1)
+  const segmentObstacles = new Int32Array(record.segmentObstacles)
+  for (let i = 0; i < segmentObstacles.length; i += 2) {
+    const seg = graph.segments[segmentObstacles[i]]
+    const obstacle = meta.obstacles[segmentObstacles[i + 1]]
+    ;(seg.obstacles ||= []).push(obstacle)
+    carry(obstacle)
+  }
+  const nodeObstacles = new Int32Array(record.nodeObstacles)
+  for (let i = 0; i < nodeObstacles.length; i += 2) {
+    const obstacle = meta.obstacles[nodeObstacles[i + 1]]
+    if (!graph.nodeObstacles.has(nodeObstacles[i])) graph.nodeObstacles.set(nodeObstacles[i], [])
+    graph.nodeObstacles.get(nodeObstacles[i])!.push(obstacle)
+    carry(obstacle)
+  }
+
+  for (const id of new Float64Array(record.seen)) build.seen.add(id < 0 ? `node/${-id}` : `way/${id}`)
+  for (const id of meta.seenRelations) build.seen.add(`relation/${id}`)
+  build.pendingNodes = meta.pendingNodes
+  build.pendingBridges = meta.pendingBridges
+  build.waterAreas = meta.waterAreas
+
+  return { graph, build, regions: meta.regions }
+}
+
+const loadCache = async (): Promise<CachedGraph> => {
+  if (hasIndexedDB()) {
+    try {
+      const started = Date.now()
+      const record = await readRecord()
+      if (record?.version === FORMAT_VERSION) {
+        const loaded = decodeGraph(record)
+        console.log(`💾 Routing graph loaded from IndexedDB in ${Date.now() - started} ms:`, loaded.graph.segments.length, 'segments')
+        return loaded
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not load the cached routing graph:', error)
+    }
+  }
+  return createCachedGraph()
+}
+
+const getCache = () => {
+  if (cache) return Promise.resolve(cache)
+  if (!loading) {
+    loading = loadCache().then(loaded => {
+      cache = loaded
+      return loaded
+    })
+  }
+  return loading
+}
+
+const scheduleSave = () => {
+  if (!hasIndexedDB()) return
+  if (saveTimer) clearTimeout(saveTimer)
+  saveTimer = setTimeout(async () => {
+    saveTimer = null
+    // A merge is still running or was cancelled; the next one that finishes saves the graph
+    if (!cache || cache.build.dirty) return
+    try {
+      const record = encodeGraph(cache)
+      await writeRecord(record)
+      console.log('💾 Routing graph saved to IndexedDB:', cache.graph.segments.length, 'segments,',
+        Math.round(record.nodes.byteLength / 1024 + record.segments.byteLength / 1024), 'kB of nodes and edges')
+    } catch (error) {
+      console.warn('⚠️ Could not save the routing graph:', error)
+    }
+  }, SAVE_DELAY_MS)
+}
+
+// Parts of `a` outside `b` (up to four boxes)
+const subtractBounds = (a: Bounds, b: Bounds): Bounds[] => {
+  if (b.s >= a.n || b.n <= a.s || b.w >= a.e || b.e <= a.w) return [a]
+  const parts: Bounds[] = []
+  if (b.s > a.s) parts.push({ s: a.s, w: a.w, n: b.s, e: a.e })
+  if (b.n < a.n) parts.push({ s: b.n, w: a.w, n: a.n, e: a.e })
+  const s = Math.max(a.s, b.s), n = Math.min(a.n, b.n)
+  if (b.w > a.w) parts.push({ s, w: a.w, n, e: b.w })
+  if (b.e < a.e) parts.push({ s, w: b.e, n, e: a.e })
+  return parts
+}
+
+// Is the region inside the union of the regions?
+export const isCoveredBy = (region: Bounds, regions: Bounds[]) => {
+  let remaining = [region]
+  for (const box of regions) {
+    remaining = remaining.flatMap(part => subtractBounds(part, box))
+    if (remaining.length === 0) return true
+  }
+  return false
+}
+
+const isFresh = (region: CachedRegion) => Date.now() - region.fetchedAt < REGION_MAX_AGE_MS
+
+export const isRegionCached = async (region: Bounds) =>
+  isCoveredBy(region, (await getCache()).regions.filter(isFresh))
+
+// Merged elements are never replaced, so refetched data only takes effect in a new graph.
+// Started over once a region has expired or the graph has outgrown its cap.
+const isWorn = ({ graph, regions }: CachedGraph) =>
+  graph.segments.length > MAX_SEGMENTS || regions.some(region => !isFresh(region))
+
+// RouteComputeOptions.graphFor backed by the long-lived graph: new elements are merged
+// in, and params.region is remembered so the corridor need not be fetched again
+export const getCachedGraph = async (elements: any[], options: RouteComputeOptions = {}): Promise<Graph> => {
+  let current = await getCache()
+  // Only with data coming in: without elements the route relies on what the graph holds
+  if (elements.length > 0 && isWorn(current)) {
+    console.log('♻️ Starting a new routing graph:', current.graph.segments.length, 'segments,', current.regions.length, 'regions')
+    current = cache = createCachedGraph()
+  }
+  const unfinished = current.build.dirty // Left by a cancelled merge, finished by this one
+  const added = await mergeIntoGraph(current.graph, current.build, elements, options)
+
+  const region = options.params?.region
+  const newRegion = !!region && !isCoveredBy(region, current.regions.filter(isFresh))
+  if (region && newRegion) {
+    current.regions = [...current.regions.filter(box => !isCoveredBy(box, [region])), { ...region, fetchedAt: Date.now() }]
+  }
+  if (added > 0 || newRegion || unfinished) scheduleSave()
+  return current.graph
+}
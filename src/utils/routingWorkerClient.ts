@@ -0,0 +1,140 @@
+// Main-thread side of the routing worker
+// Exposes the worker as a RouteRunner so findWaterwayRoute can use it transparently
+
+import { Bounds, computeRouteOnElements, createAbortError, ComputedRoute, RouteComputeOptions } from './routing'
+import { getCachedGraph, isRegionCached } from './routingGraphCache'
+import type { RoutingWorkerRequest, RoutingWorkerResponse } from '../workers/routingWorker'
+
+interface PendingJob {
+  resolve: (route: ComputedRoute | null) => void
+  reject: (error: Error) => void
+  onProgress?: RouteComputeOptions['onProgress']
+}
+
+let worker: Worker | null = null
+let nextJobId = 1
+const pending = new Map<number, PendingJob>()
+const coverageChecks = new Map<number, (covered: boolean) => void>()
+const merges = new Map<number, { resolve: () => void, reject: (error: Error) => void }>()
+
+// Spawn the worker lazily and keep it alive between routes
+const getWorker = () => {
+  if (worker) return worker
+
+  worker = new Worker(new URL('../workers/routingWorker.ts', import.meta.url), { type: 'module' })
+
+  worker.onmessage = (event: MessageEvent<RoutingWorkerResponse>) => {
+    const message = event.data
+    if (message.type === 'covers') {
+      coverageChecks.get(message.id)?.(message.covered)
+      coverageChecks.delete(message.id)
+      return
+    }
+
+    const merge = merges.get(message.id)
+    if (merge) {
+      merges.delete(message.id)
+      if (message.type === 'merged') merge.resolve()
+      else if (message.type === 'error') merge.reject(new Error(message.message))
+      return
+    }
+
+    const job = pending.get(message.id)
+    if (!job) return // Already cancelled on this side
+
+    switch (message.type) {
+      case 'progress':
+        job.onProgress?.(message.progress)
+        break
+      case 'result':
+        pending.delete(message.id)
+        job.resolve(message.route)
+        break
+      case 'cancelled':
+        pending.delete(message.id)
+        job.reject(createAbortError())
+        break
+      case 'error': {
+        pending.delete(message.id)
+        const error = new Error(message.message)
+        error.name = message.name // Keeps e.g. RouteBlockedError recognisable
+        job.reject(error)
+        break
+      }
+    }
+  }
+
+  worker.onerror = (event) => {
+    console.error('❌ Routing worker crashed:', event.message)
+    for (const job of pending.values()) job.reject(new Error(event.message || 'Routing worker crashed'))
+    pending.clear()
+    for (const resolve of coverageChecks.values()) resolve(false)
+    coverageChecks.clear()
+    for (const merge of merges.values()) merge.reject(new Error(event.message || 'Routing worker crashed'))
+    merges.clear()
+    worker?.terminate()
+    worker = null
+  }
+
+  return worker
+}
+
+// Run graph building and path search in the routing worker. Falls back to the
+// main thread where Web Workers are unavailable.
+export const computeRouteInWorker = (
+  elements: any[],
+  start: [number, number],
+  end: [number, number],
+  options: RouteComputeOptions = {}
+): Promise<ComputedRoute | null> => {
+  if (typeof Worker === 'undefined') {
+    console.warn('⚠️ Web Workers not supported, routing on the main thread')
+    return computeRouteOnElements(elements, start, end, { ...options, graphFor: getCachedGraph })
+  }
+
+  const { signal, onProgress, params } = options
+  if (signal?.aborted) return Promise.reject(createAbortError())
+
+  const id = nextJobId++
+  const target = getWorker()
+
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject, onProgress })
+
+    // Settle immediately on abort; the worker stops at its next slice boundary
+    signal?.addEventListener('abort', () => {
+      if (!pending.has(id)) return
+      pending.delete(id)
+      worker?.postMessage({ type: 'cancel', id } as RoutingWorkerRequest)
+      reject(createAbortError())
+    }, { once: true })
+
+    target.postMessage({ type: 'route', id, elements, start, end, params } as RoutingWorkerRequest)
+  })
+}
+
+// Does the worker's routing graph cache already hold this region? Lets findWaterwayRoute
+// skip fetching the corridor again.
+export const isRegionCachedInWorker = (region: Bounds): Promise<boolean> => {
+  if (typeof Worker === 'undefined') return isRegionCached(region)
+
+  const id = nextJobId++
+  const target = getWorker()
+  return new Promise(resolve => {
+    coverageChecks.set(id, resolve)
+    target.postMessage({ type: 'covers', id, region } as RoutingWorkerRequest)
+  })
+}
+
+// Add elements fetched for a whole region to the worker's routing graph cache, so routes
+// inside the region need no Overpass requests (offline packs)
+export const mergeIntoRoutingGraphInWorker = (elements: any[], region: Bounds): Promise<void> => {
+  if (typeof Worker === 'undefined') return getCachedGraph(elements, { params: { region } }).then(() => undefined)
+
+  const id = nextJobId++
+  const target = getWorker()
+  return new Promise((resolve, reject) => {
+    merges.set(id, { resolve, reject })
+    target.postMessage({ type: 'merge', id, elements, region } as RoutingWorkerRequest)
+  })
+}
@@ -0,0 +1,63 @@
+// Service worker registration for VaarApp
+// Registers /sw.js in production builds and tells the app when a newer build is waiting,
+// so the user decides when to reload instead of the app changing under them mid-trip.
+
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000 // 1 hour
+
+let waitingWorker: ServiceWorker | null = null
+
+const announceUpdate = (worker: ServiceWorker) => {
+  waitingWorker = worker
+  console.log('🆕 New app version ready')
+  window.dispatchEvent(new CustomEvent('appUpdateAvailable'))
+}
+
+export const hasUpdateWaiting = () => waitingWorker !== null
+
+// Let the waiting worker take over; the page reloads once it controls it
+export const applyUpdate = () => {
+  waitingWorker?.postMessage({ type: 'SKIP_WAITING' })
+}
+
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js')
+      console.log('📦 Service worker registered')
+
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        announceUpdate(registration.waiting)
+      }
+
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing
+        if (!installing) return
+        installing.addEventListener('statechange', () => {
+          // Without a controller this is the first install, which needs no reload
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+            announceUpdate(installing)
+          }
+        })
+      })
+
+      // Long sessions on board: look for a new build now and then, and when the app comes back
+      setInterval(() => registration.update().catch(() => undefined), UPDATE_CHECK_INTERVAL)
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible' && navigator.onLine) {
+          registration.update().catch(() => undefined)
+        }
+      })
+    } catch (error) {
+      console.error('❌ Service worker registration failed:', error)
+    }
+  })
+
+  let reloading = false
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (!waitingWorker || reloading) return
+    reloading = true
+    window.location.reload()
+  })
+}
@@ -0,0 +1,153 @@
+// Spatial index for VaarApp routing and POI lookups
+// Uniform grid over line segments: nearest-segment and k-nearest queries without scanning every segment
+
+export interface SegmentHit {
+  index: number // Segment index as passed to add()
+  distance: number // Meters from the query point to the segment
+  point: [number, number] // Closest point on the segment [lat, lng]
+  t: number // Position of that point along the segment, 0 = a, 1 = b
+}
+
+export interface SegmentIndex {
+  size: () => number
+  add: (index: number, a: [number, number], b: [number, number]) => void
+  nearest: (point: [number, number], maxMeters?: number) => SegmentHit | null
+  kNearest: (point: [number, number], k: number, maxMeters?: number) => SegmentHit[]
+  candidates: (a: [number, number], b: [number, number], padMeters?: number) => Set<number>
+}
+
+// ~550 m north-south, ~340 m east-west in the Netherlands: a handful of canal segments per cell
+export const DEFAULT_CELL_DEGREES = 0.005
+
+const METERS_PER_DEGREE = 111320
+const R = 6371000
+const toRad = (d: number) => d * Math.PI / 180
+
+const haversine = (a: [number, number], b: [number, number]) => {
+  const dLat = toRad(b[0] - a[0]), dLon = toRad(b[1] - a[1])
+  const s = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a[0])) * Math.cos(toRad(b[0])) * Math.sin(dLon / 2) ** 2
+  return 2 * R * Math.asin(Math.sqrt(s))
+}
+
+// Closest point on a-b to p, projected around p so east-west distances are not overstated
+export const closestPointOnSegment = (
+  p: [number, number],
+  a: [number, number],
+  b: [number, number]
+): { point: [number, number], t: number } => {
+  const k = Math.cos(toRad(p[0]))
+  const ax = a[1] * k, ay = a[0], bx = b[1] * k, by = b[0]
+  const dx = bx - ax, dy = by - ay
+  const len2 = dx * dx + dy * dy
+  const t = len2 ? Math.max(0, Math.min(1, ((p[1] * k - ax) * dx + (p[0] - ay) * dy) / len2)) : 0
+  return { point: [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])], t }
+}
+
+export const createSegmentIndex = (cellDegrees: number = DEFAULT_CELL_DEGREES): SegmentIndex => {
+  const cells = new Map<number, number[]>()
+  const ends = new Map<number, [[number, number], [number, number]]>()
+  let minLa = Infinity, maxLa = -Infinity, minLo = Infinity, maxLo = -Infinity
+
+  const cellOf = (degrees: number) => Math.floor(degrees / cellDegrees)
+  const cellKey = (la: number, lo: number) => la * 100000 + lo // lo stays within ±36000 cells
+
+  // Registers the segment in the cells it passes through, row by row, so long diagonal
+  // edges (open water) do not fill their whole bounding box
+  const add = (index: number, a: [number, number], b: [number, number]) => {
+    ends.set(index, [a, b])
+    const la0 = cellOf(Math.min(a[0], b[0])), la1 = cellOf(Math.max(a[0], b[0]))
+    const lo0 = cellOf(Math.min(a[1], b[1])), lo1 = cellOf(Math.max(a[1], b[1]))
+    const lonAt = (lat: number) => a[0] === b[0] ? a[1] : a[1] + (lat - a[0]) / (b[0] - a[0]) * (b[1] - a[1])
+    for (let la = la0; la <= la1; la++) {
+      const lat0 = Math.max(Math.min(a[0], b[0]), la * cellDegrees)
+      const lat1 = Math.min(Math.max(a[0], b[0]), (la + 1) * cellDegrees)
+      const rowLo0 = la0 === la1 ? lo0 : Math.max(lo0, cellOf(Math.min(lonAt(lat0), lonAt(lat1))))
+      const rowLo1 = la0 === la1 ? lo1 : Math.min(lo1, cellOf(Math.max(lonAt(lat0), lonAt(lat1))))
+      for (let lo = rowLo0; lo <= rowLo1; lo++) {
+        const key = cellKey(la, lo)
+        const bucket = cells.get(key)
+        if (bucket) bucket.push(index)
+        else cells.set(key, [index])
+      }
+    }
+    minLa = Math.min(minLa, la0); maxLa = Math.max(maxLa, la1)
+    minLo = Math.min(minLo, lo0); maxLo = Math.max(maxLo, lo1)
+  }
+
+  const hitFor = (point: [number, number], index: number): SegmentHit => {
+    const [a, b] = ends.get(index)!
+    const closest = closestPointOnSegment(point, a, b)
+    return { index, distance: haversine(point, closest.point), point: closest.point, t: closest.t }
+  }
+
+  // Search rings of cells around the point until nothing closer than the k-th hit can remain
+  const kNearest = (point: [number, number], k: number, maxMeters: number = Infinity): SegmentHit[] => {
+    if (ends.size === 0 || k <= 0) return []
+    const cLa = cellOf(point[0]), cLo = cellOf(point[1])
+    // Lower bound in meters for one cell in either direction (longitude cells are narrower)
+    const cellMeters = cellDegrees * METERS_PER_DEGREE *
+      Math.min(1, Math.cos(toRad(Math.min(89, Math.abs(point[0]) + cellDegrees)))) * 0.99
+    const hits: SegmentHit[] = []
+    const seen = new Set<number>()
+
+    const visit = (la: number, lo: number) => {
+      if (la < minLa || la > maxLa || lo < minLo || lo > maxLo) return
+      for (const index of cells.get(cellKey(la, lo)) || []) {
+        if (seen.has(index)) continue
+        seen.add(index)
+        const hit = hitFor(point, index)
+        if (hit.distance <= maxMeters) hits.push(hit)
+      }
+    }
+
+    // Rings closer than the indexed area are empty
+    let r = Math.max(0, minLa - cLa, cLa - maxLa, minLo - cLo, cLo - maxLo)
+    for (;; r++) {
+      if (r === 0) {
+        visit(cLa, cLo)
+      } else {
+        for (let lo = cLo - r; lo <= cLo + r; lo++) {
+          visit(cLa - r, lo)
+          visit(cLa + r, lo)
+        }
+        for (let la = cLa - r + 1; la <= cLa + r - 1; la++) {
+          visit(la, cLo - r)
+          visit(la, cLo + r)
+        }
+      }
+
+      // Anything in rings beyond r is at least r cells away
+      const bound = r * cellMeters
+      if (bound > maxMeters) break
+      if (hits.length >= k) {
+        hits.sort((x, y) => x.distance - y.distance)
+        if (hits[k - 1].distance <= bound) break
+      }
+      if (cLa - r <= minLa && cLa + r >= maxLa && cLo - r <= minLo && cLo + r >= maxLo) break
+    }
+
+    hits.sort((x, y) => x.distance - y.distance)
+    return hits.length > k ? hits.slice(0, k) : hits
+  }
+
+  const nearest = (point: [number, number], maxMeters?: number) => kNearest(point, 1, maxMeters)[0] || null
+
+  // Segments sharing a cell with the box around a-b; callers do the exact test
+  const candidates = (a: [number, number], b: [number, number], padMeters: number = 0) => {
+    const padLat = padMeters / METERS_PER_DEGREE
+    const padLon = padLat / Math.max(0.01, Math.cos(toRad(Math.max(Math.abs(a[0]), Math.abs(b[0])))))
+    const result = new Set<number>()
+    const la0 = Math.max(minLa, cellOf(Math.min(a[0], b[0]) - padLat))
+    const la1 = Math.min(maxLa, cellOf(Math.max(a[0], b[0]) + padLat))
+    const lo0 = Math.max(minLo, cellOf(Math.min(a[1], b[1]) - padLon))
+    const lo1 = Math.min(maxLo, cellOf(Math.max(a[1], b[1]) + padLon))
+    for (let la = la0; la <= la1; la++) {
+      for (let lo = lo0; lo <= lo1; lo++) {
+        for (const index of cells.get(cellKey(la, lo)) || []) result.add(index)
+      }
+    }
+    return result
+  }
+
+  return { size: () => ends.size, add, nearest, kNearest, candidates }
+}
@@ -0,0 +1,172 @@
+// Trip logbook for VaarApp
+// Records the track actually sailed while navigating, with statistics, and keeps past trips
+// in localStorage
+
+import { haversine } from './routing'
+import { BoatPosition, bearingBetween } from './positionProvider'
+
+export interface TrackPoint {
+  lat: number
+  lng: number
+  sog: number // Speed over ground, m/s
+  cog?: number // Course over ground, degrees
+  t: number // ms since epoch
+}
+
+// A lock, bridge or harbour the track may pass; from the route passages and POIs
+export interface TripLandmark {
+  kind: 'lock' | 'bridge' | 'harbour'
+  name?: string
+  at: [number, number]
+}
+
+export interface Trip {
+  id: string
+  startedAt: number
+  endedAt: number
+  track: TrackPoint[]
+  distance: number // Meters sailed
+  movingSeconds: number
+  averageSpeed: number // m/s over the moving time
+  maxSpeed: number // m/s
+  locks: string[] // Names of the locks passed, in order
+  bridges: string[]
+  startHarbour?: string
+  endHarbour?: string
+  simulated: boolean
+}
+
+export const DEFAULT_TRACK_INTERVAL_SECONDS = 10
+
+// Slower than this (about 1 knot) the boat is moored or drifting
+const MOVING_SPEED_MPS = 0.5
+// A lock or bridge counts as passed when the track comes this close
+const PASSED_METERS = 50
+// The trip starts or ends in a harbour this close to the first or last fix
+const HARBOUR_METERS = 1000
+// Speeds above this come from GPS jumps, not the boat
+const MAX_PLAUSIBLE_MPS = 25
+
+const LOGBOOK_KEY = 'vaarpro_logbook'
+
+const toLatLng = (point: TrackPoint): [number, number] => [point.lat, point.lng]
+
+// Fixes come in as often as the provider sends them; one is kept per interval. `simulated`
+// marks trips sailed by the simulator so the logbook can tell them apart.
+export const createTrackRecorder = (intervalSeconds: number = DEFAULT_TRACK_INTERVAL_SECONDS) => {
+  const track: TrackPoint[] = []
+  const landmarks = new Map<string, TripLandmark>()
+  let simulated = false
+  let latest: BoatPosition | null = null // Kept so the track ends where the boat did
+
+  const pointFrom = (position: BoatPosition, last?: TrackPoint): TrackPoint => {
+    const here: [number, number] = [position.lat, position.lng]
+    const derived = last && position.timestamp > last.t
+      ? haversine(toLatLng(last), here) / ((position.timestamp - last.t) / 1000)
+      : 0
+    return {
+      lat: position.lat,
+      lng: position.lng,
+      sog: position.speed ?? derived,
+      cog: position.heading ?? (last ? bearingBetween(toLatLng(last), here) : undefined),
+      t: position.timestamp
+    }
+  }
+
+  const add = (position: BoatPosition, fromSimulation: boolean = false) => {
+    simulated ||= fromSimulation
+    latest = position
+    const last = track[track.length - 1]
+    if (last && position.timestamp - last.t < intervalSeconds * 1000) return false
+    track.push(pointFrom(position, last))
+    return true
+  }
+
+  // Reroutes bring new passages; the same structure is only kept once
+  const addLandmarks = (list: TripLandmark[]) => {
+    for (const landmark of list) landmarks.set(`${landmark.kind}:${landmark.at[0].toFixed(5)},${landmark.at[1].toFixed(5)}`, landmark)
+  }
+
+  const finish = (): Trip | null => {
+    const last = track[track.length - 1]
+    if (latest && last && latest.timestamp > last.t) track.push(pointFrom(latest, last))
+    if (track.length < 2) return null
+    return { ...summarizeTrack(track, [...landmarks.values()]), simulated }
+  }
+
+  return { add, addLandmarks, finish, size: () => track.length }
+}
+
+export type TrackRecorder = ReturnType<typeof createTrackRecorder>
+
+export const summarizeTrack = (track: TrackPoint[], landmarks: TripLandmark[]): Omit<Trip, 'simulated'> => {
+  let distance = 0, movingSeconds = 0, maxSpeed = 0
+  for (let i = 1; i < track.length; i++) {
+    const meters = haversine(toLatLng(track[i - 1]), toLatLng(track[i]))
+    const seconds = (track[i].t - track[i - 1].t) / 1000
+    const speed = seconds > 0 ? meters / seconds : 0
+    if (speed > MAX_PLAUSIBLE_MPS) continue
+    distance += meters
+    if (speed >= MOVING_SPEED_MPS) movingSeconds += seconds
+    maxSpeed = Math.max(maxSpeed, speed, track[i].sog <= MAX_PLAUSIBLE_MPS ? track[i].sog : 0)
+  }
+
+  // Where along the track each landmark was passed, so they are listed in sailing order
+  const passed = (kind: TripLandmark['kind']) => landmarks
+    .filter(landmark => landmark.kind === kind)
+    .map(landmark => ({ landmark, index: track.findIndex(point => haversine(toLatLng(point), landmark.at) <= PASSED_METERS) }))
+    .filter(({ index }) => index >= 0)
+    .sort((a, b) => a.index - b.index)
+    .map(({ landmark }) => landmark.name || (kind === 'lock' ? 'Lock' : 'Bridge'))
+
+  const harbourNear = (point: TrackPoint) => landmarks
+    .filter(landmark => landmark.kind === 'harbour' && landmark.name)
+    .map(landmark => ({ name: landmark.name, meters: haversine(toLatLng(point), landmark.at) }))
+    .filter(({ meters }) => meters <= HARBOUR_METERS)
+    .sort((a, b) => a.meters - b.meters)[0]?.name
+
+  return {
+    id: `trip_${track[0].t}`,
+    startedAt: track[0].t,
+    endedAt: track[track.length - 1].t,
+    track,
+    distance,
+    movingSeconds,
+    averageSpeed: movingSeconds > 0 ? distance / movingSeconds : 0,
+    maxSpeed,
+    locks: passed('lock'),
+    bridges: passed('bridge'),
+    startHarbour: harbourNear(track[0]),
+    endHarbour: harbourNear(track[track.length - 1])
+  }
+}
+
+// Fixes for the replay provider
+export const trackToPositions = (track: TrackPoint[]): BoatPosition[] =>
+  track.map(point => ({ lat: point.lat, lng: point.lng, speed: point.sog, heading: point.cog, timestamp: point.t }))
+
+export const loadTrips = (): Trip[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LOGBOOK_KEY) || '[]')
+  } catch (error) {
+    console.warn('Failed to load logbook:', error)
+    return []
+  }
+}
+
+// Newest first. Returns false when storage is full, so the caller can tell the user.
+export const saveTrip = (trip: Trip): boolean => {
+  try {
+    const trips = [trip, ...loadTrips().filter(existing => existing.id !== trip.id)]
+    localStorage.setItem(LOGBOOK_KEY, JSON.stringify(trips))
+    console.log('📓 Trip saved:', (trip.distance / 1000).toFixed(1), 'km,', trip.track.length, 'points')
+    return true
+  } catch (error) {
+    console.error('❌ Failed to save trip:', error)
+    return false
+  }
+}
+
+export const deleteTrip = (id: string) => {
+  localStorage.setItem(LOGBOOK_KEY, JSON.stringify(loadTrips().filter(trip => trip.id !== id)))
+}
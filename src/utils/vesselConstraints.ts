@@ -0,0 +1,142 @@
+// Vessel clearance constraints for VaarApp routing
+// Turns OSM bridge/lock/waterway tags into clearance limits and checks them against the boat profile
+
+export interface BoatProfile {
+  height: number // Air draft above waterline in meters
+  width: number // Beam in meters
+  length: number // Length overall in meters
+  draught: number // Depth below waterline in meters
+}
+
+export type ClearanceKind = 'height' | 'width' | 'length' | 'draught'
+
+// An object on the waterway that can restrict passage (bridge, lock, or a tagged waterway stretch)
+export interface Obstacle {
+  osmId: number
+  osmType: 'node' | 'way'
+  kind: 'bridge' | 'lock' | 'waterway'
+  name?: string
+  at: [number, number] // [lat, lng]
+  movable: boolean // Movable bridges open, so their closed height does not block
+  clearance: Partial<Record<ClearanceKind, number>>
+  // Set by the graph builder: which physical lock/bridge this belongs to, and the
+  // fraction of its passage delay charged on each edge or node carrying it
+  passage?: { group: string, share: number }
+}
+
+export interface ConstraintViolation {
+  obstacle: Obstacle
+  constraint: ClearanceKind
+  limit: number // Clearance in meters
+  boatValue: number // Matching boat dimension in meters
+}
+
+// Tags checked per dimension, most specific first. Lock chambers carry their
+// dimensions as maxwidth/maxlength/maxdraft on the lock=yes way or node.
+const CLEARANCE_TAGS: Record<ClearanceKind, string[]> = {
+  height: ['seamark:bridge:clearance_height', 'maxheight:physical', 'maxheight'],
+  width: ['seamark:bridge:clearance_width', 'maxwidth:physical', 'maxwidth'],
+  length: ['maxlength'],
+  draught: ['maxdraft', 'maxdraught']
+}
+
+const MOVABLE_BRIDGE_CATEGORIES = ['opening', 'bascule', 'swing', 'lifting', 'rolling', 'draw', 'transporter', 'pontoon', 'movable']
+
+// Parse an OSM length value into meters: "2.5", "2,5 m", "8'6\"", "30 ft"
+export const parseMeasure = (value?: string): number | undefined => {
+  if (!value) return undefined
+  const v = value.trim().toLowerCase()
+  if (v === 'none' || v === 'default' || v === 'unsigned') return undefined
+
+  const feetInches = v.match(/^(\d+(?:\.\d+)?)'\s*(?:(\d+(?:\.\d+)?)")?$/)
+  if (feetInches) {
+    return parseFloat(feetInches[1]) * 0.3048 + (feetInches[2] ? parseFloat(feetInches[2]) * 0.0254 : 0)
+  }
+
+  const number = v.match(/^(\d+(?:[.,]\d+)?)\s*(m|ft)?$/)
+  if (!number) return undefined
+  const n = parseFloat(number[1].replace(',', '.'))
+  return number[2] === 'ft' ? n * 0.3048 : n
+}
+
+// Extract clearance limits from OSM tags
+export const extractClearance = (tags: Record<string, string> = {}): Obstacle['clearance'] => {
+  const clearance: Obstacle['clearance'] = {}
+  for (const kind of Object.keys(CLEARANCE_TAGS) as ClearanceKind[]) {
+    for (const tag of CLEARANCE_TAGS[kind]) {
+      const value = parseMeasure(tags[tag])
+      if (value !== undefined && value > 0) {
+        clearance[kind] = value
+        break
+      }
+    }
+  }
+  return clearance
+}
+
+// bridge:movable names how a bridge opens (bascule, swing ...); "no" marks a fixed bridge,
+// whose height limit must hold whatever the other tags say
+export const isMovableBridge = (tags: Record<string, string> = {}) => {
+  const movable = tags['bridge:movable'] || tags['seamark:bridge:movable']
+  if (movable === 'no') return false
+  return tags.bridge === 'movable' ||
+    !!movable ||
+    MOVABLE_BRIDGE_CATEGORIES.includes(tags['seamark:bridge:category'])
+}
+
+export const isLockTagged = (tags: Record<string, string> = {}) =>
+  tags.lock === 'yes' || tags.waterway === 'lock_gate' || tags['seamark:type'] === 'lock_basin' || tags['seamark:type'] === 'gate'
+
+export const isBridgeTagged = (tags: Record<string, string> = {}) =>
+  (!!tags.bridge && tags.bridge !== 'no') || tags['seamark:type'] === 'bridge'
+
+// Build an obstacle from an Overpass element, or null when it restricts nothing
+export const obstacleFromElement = (el: any, kind: Obstacle['kind']): Obstacle | null => {
+  const tags = el.tags || {}
+  const at: [number, number] | null =
+    el.type === 'node' ? [el.lat, el.lon] :
+    el.center ? [el.center.lat, el.center.lon] :
+    el.geometry?.length ? [el.geometry[0].lat, el.geometry[0].lon] : null
+  if (!at) return null
+
+  const obstacle: Obstacle = {
+    osmId: el.id,
+    osmType: el.type === 'node' ? 'node' : 'way',
+    kind,
+    name: tags.name || tags['seamark:name'] || tags['lock_name'],
+    at,
+    movable: kind === 'bridge' && isMovableBridge(tags),
+    clearance: extractClearance(tags)
+  }
+
+  // Locks and bridges are kept even without clearance tags (passage delays use them)
+  if (kind === 'waterway' && Object.keys(obstacle.clearance).length === 0) return null
+  return obstacle
+}
+
+// First dimension of the boat that does not fit, or null when the boat can pass
+export const findViolation = (obstacle: Obstacle, profile: BoatProfile): ConstraintViolation | null => {
+  const dimensions: Array<[ClearanceKind, number]> = [
+    ['height', profile.height],
+    ['width', profile.width],
+    ['length', profile.length],
+    ['draught', profile.draught]
+  ]
+
+  for (const [constraint, boatValue] of dimensions) {
+    if (constraint === 'height' && obstacle.movable) continue
+    const limit = obstacle.clearance[constraint]
+    if (limit !== undefined && boatValue > 0 && boatValue > limit) {
+      return { obstacle, constraint, limit, boatValue }
+    }
+  }
+  return null
+}
+
+// Human-readable explanation, e.g. "Bridge Oudegracht: clearance height 2.5 m < boat 3.2 m"
+export const describeViolation = (violation: ConstraintViolation) => {
+  const { obstacle, constraint, limit, boatValue } = violation
+  const label = obstacle.name || `${obstacle.kind.charAt(0).toUpperCase() + obstacle.kind.slice(1)} ${obstacle.osmId}`
+  const what = constraint === 'draught' ? 'max draught' : `clearance ${constraint}`
+  return `${label}: ${what} ${limit.toFixed(1)} m < boat ${boatValue.toFixed(1)} m`
+}
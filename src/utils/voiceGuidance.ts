@@ -0,0 +1,366 @@
+// Voice guidance for VaarApp navigation
+// Speaks upcoming manoeuvres, locks and bridges and reported hazards as the boat sails the
+// route, in the user's language and distance units
+
+import { RouteStep, TurnDirection, haversine } from './routing'
+import { NavigationProgress } from './routeTracking'
+import { POI } from './poiUtils'
+import { closestPointOnSegment } from './spatialIndex'
+
+// Where announcements go. Web Speech in the browser; tests pass a fake that records them.
+export interface SpeechBackend {
+  speak: (text: string, lang: string, urgent?: boolean) => void
+  cancel: () => void
+}
+
+export interface VoiceGuidanceOptions {
+  enabled: boolean // When off, announcements are tracked but not spoken
+  language: string
+  units: string // 'metric' | 'imperial'
+  hazards: boolean // Announce hazard reports ahead
+}
+
+// A user report to warn about; only reports close to the route are announced
+export interface GuidanceHazard {
+  id: string
+  type: string
+  location: [number, number]
+}
+
+// Manoeuvres and passages are announced when the boat gets this close (meters)
+const STEP_THRESHOLDS = [1000, 300, 50]
+// Locks and bridges from the POI list that do not end a step
+const POI_AHEAD_METERS = 300
+// Passage steps and POIs this close together are the same structure
+const SAME_PLACE_METERS = 50
+const HAZARD_AHEAD_METERS = 1000
+const HAZARD_ROUTE_METERS = 200
+
+type Language = 'en' | 'nl' | 'de' | 'fr'
+
+interface Phrases {
+  locale: string
+  turns: Record<TurnDirection, string>
+  onto: (waterway: string) => string
+  inDistance: (distance: string, action: string) => string
+  follow: (waterway: string, distance: string) => string
+  lock: (name?: string) => string
+  bridge: (name?: string) => string
+  clearance: (height: string) => string
+  arriveStop: (stop: number) => string
+  arriveDestination: string
+  arrived: string
+  hazard: (label: string, distance: string) => string
+  hazards: Record<string, string>
+  units: { m: string, km: string, oneKm: string, ft: string, mi: string, oneMi: string, heightM: string, heightFt: string }
+}
+
+const PHRASES: Record<Language, Phrases> = {
+  en: {
+    locale: 'en-GB',
+    turns: {
+      'straight': 'Continue',
+      'slight-starboard': 'Bear to starboard',
+      'starboard': 'Turn to starboard',
+      'sharp-starboard': 'Turn sharply to starboard',
+      'slight-port': 'Bear to port',
+      'port': 'Turn to port',
+      'sharp-port': 'Turn sharply to port'
+    },
+    onto: (waterway) => `onto ${waterway}`,
+    inDistance: (distance, action) => `In ${distance}, ${lowerFirst(action)}`,
+    follow: (waterway, distance) => `Follow ${waterway} for ${distance}`,
+    lock: (name) => name ? `Lock ${name}` : 'Lock',
+    bridge: (name) => name ? `Bridge ${name}` : 'Bridge',
+    clearance: (height) => `clearance ${height}`,
+    arriveStop: (stop) => `Arrive at stop ${stop}`,
+    arriveDestination: 'Arrive at your destination',
+    arrived: 'You have arrived',
+    hazard: (label, distance) => `Caution, ${label} reported in ${distance}`,
+    hazards: {
+      shallow_water: 'shallow water',
+      bridge_closed: 'a closed bridge',
+      lock_closed: 'a closed lock',
+      obstruction: 'an obstruction',
+      hazardous_navigation: 'hazardous navigation',
+      speed_limit: 'a speed limit',
+      port_full: 'a full harbour',
+      accident: 'an accident',
+      police_checkpoint: 'a police check',
+      other: 'a hazard'
+    },
+    units: { m: 'meters', km: 'kilometers', oneKm: 'kilometer', ft: 'feet', mi: 'miles', oneMi: 'mile', heightM: 'meters', heightFt: 'feet' }
+  },
+  nl: {
+    locale: 'nl-NL',
+    turns: {
+      'straight': 'Vaar rechtdoor',
+      'slight-starboard': 'Houd stuurboord aan',
+      'starboard': 'Ga naar stuurboord',
+      'sharp-starboard': 'Ga scherp naar stuurboord',
+      'slight-port': 'Houd bakboord aan',
+      'port': 'Ga naar bakboord',
+      'sharp-port': 'Ga scherp naar bakboord'
+    },
+    onto: (waterway) => `richting ${waterway}`,
+    inDistance: (distance, action) => `Over ${distance}, ${lowerFirst(action)}`,
+    follow: (waterway, distance) => `Volg ${waterway} gedurende ${distance}`,
+    lock: (name) => name ? `Sluis ${name}` : 'Sluis',
+    bridge: (name) => name ? `Brug ${name}` : 'Brug',
+    clearance: (height) => `doorvaarthoogte ${height}`,
+    arriveStop: (stop) => `Aankomst bij tussenstop ${stop}`,
+    arriveDestination: 'Aankomst op uw bestemming',
+    arrived: 'U bent aangekomen',
+    hazard: (label, distance) => `Let op, ${label} gemeld over ${distance}`,
+    hazards: {
+      shallow_water: 'ondiep water',
+      bridge_closed: 'een gesloten brug',
+      lock_closed: 'een gesloten sluis',
+      obstruction: 'een obstakel',
+      hazardous_navigation: 'gevaarlijke vaarsituatie',
+      speed_limit: 'een snelheidsbeperking',
+      port_full: 'een volle haven',
+      accident: 'een ongeval',
+      police_checkpoint: 'een politiecontrole',
+      other: 'gevaar'
+    },
+    units: { m: 'meter', km: 'kilometer', oneKm: 'kilometer', ft: 'voet', mi: 'mijl', oneMi: 'mijl', heightM: 'meter', heightFt: 'voet' }
+  },
+  de: {
+    locale: 'de-DE',
+    turns: {
+      'straight': 'Geradeaus weiter',
+      'slight-starboard': 'Leicht nach Steuerbord halten',
+      'starboard': 'Nach Steuerbord abbiegen',
+      'sharp-starboard': 'Scharf nach Steuerbord abbiegen',
+      'slight-port': 'Leicht nach Backbord halten',
+      'port': 'Nach Backbord abbiegen',
+      'sharp-port': 'Scharf nach Backbord abbiegen'
+    },
+    onto: (waterway) => `auf ${waterway}`,
+    inDistance: (distance, action) => `In ${distance} ${action}`, // Nouns keep their capital
+    follow: (waterway, distance) => `${waterway} für ${distance} folgen`,
+    lock: (name) => name ? `Schleuse ${name}` : 'Schleuse',
+    bridge: (name) => name ? `Brücke ${name}` : 'Brücke',
+    clearance: (height) => `Durchfahrtshöhe ${height}`,
+    arriveStop: (stop) => `Ankunft an Zwischenziel ${stop}`,
+    arriveDestination: 'Ankunft am Ziel',
+    arrived: 'Sie haben Ihr Ziel erreicht',
+    hazard: (label, distance) => `Achtung, ${label} gemeldet in ${distance}`,
+    hazards: {
+      shallow_water: 'Untiefe',
+      bridge_closed: 'gesperrte Brücke',
+      lock_closed: 'gesperrte Schleuse',
+      obstruction: 'Hindernis',
+      hazardous_navigation: 'gefährliche Schifffahrt',
+      speed_limit: 'Geschwindigkeitsbegrenzung',
+      port_full: 'voller Hafen',
+      accident: 'Unfall',
+      police_checkpoint: 'Polizeikontrolle',
+      other: 'Gefahr'
+    },
+    units: { m: 'Metern', km: 'Kilometern', oneKm: 'Kilometer', ft: 'Fuß', mi: 'Meilen', oneMi: 'Meile', heightM: 'Meter', heightFt: 'Fuß' }
+  },
+  fr: {
+    locale: 'fr-FR',
+    turns: {
+      'straight': 'Continuez tout droit',
+      'slight-starboard': 'Serrez à tribord',
+      'starboard': 'Tournez à tribord',
+      'sharp-starboard': 'Tournez franchement à tribord',
+      'slight-port': 'Serrez à bâbord',
+      'port': 'Tournez à bâbord',
+      'sharp-port': 'Tournez franchement à bâbord'
+    },
+    onto: (waterway) => `vers ${waterway}`,
+    inDistance: (distance, action) => `Dans ${distance}, ${lowerFirst(action)}`,
+    follow: (waterway, distance) => `Suivez ${waterway} sur ${distance}`,
+    lock: (name) => name ? `Écluse ${name}` : 'Écluse',
+    bridge: (name) => name ? `Pont ${name}` : 'Pont',
+    clearance: (height) => `tirant d'air ${height}`,
+    arriveStop: (stop) => `Arrivée à l'étape ${stop}`,
+    arriveDestination: 'Arrivée à destination',
+    arrived: 'Vous êtes arrivé',
+    hazard: (label, distance) => `Attention, ${label} signalé dans ${distance}`,
+    hazards: {
+      shallow_water: 'haut-fond',
+      bridge_closed: 'pont fermé',
+      lock_closed: 'écluse fermée',
+      obstruction: 'obstacle',
+      hazardous_navigation: 'navigation dangereuse',
+      speed_limit: 'limitation de vitesse',
+      port_full: 'port complet',
+      accident: 'accident',
+      police_checkpoint: 'contrôle de police',
+      other: 'danger'
+    },
+    units: { m: 'mètres', km: 'kilomètres', oneKm: 'kilomètre', ft: 'pieds', mi: 'milles', oneMi: 'mille', heightM: 'mètres', heightFt: 'pieds' }
+  }
+}
+
+const lowerFirst = (text: string) => text.charAt(0).toLowerCase() + text.slice(1)
+
+const phrasesFor = (language: string): Phrases => PHRASES[language as Language] || PHRASES.en
+
+// Distances rounded the way people say them: 50 m steps below a kilometre, tenths above
+const spokenDistance = (meters: number, units: string, phrases: Phrases): string => {
+  const number = (value: number) => value.toLocaleString(phrases.locale, { maximumFractionDigits: 1 })
+  if (units === 'imperial') {
+    const feet = meters * 3.28084
+    if (feet < 975) return `${number(Math.max(50, Math.round(feet / 50) * 50))} ${phrases.units.ft}`
+    const miles = Math.round(meters / 1609.344 * 10) / 10
+    return `${number(miles)} ${miles === 1 ? phrases.units.oneMi : phrases.units.mi}`
+  }
+  if (meters < 100) return `${number(Math.max(10, Math.round(meters / 10) * 10))} ${phrases.units.m}`
+  if (meters < 975) return `${number(Math.round(meters / 50) * 50)} ${phrases.units.m}`
+  const km = Math.round(meters / 100) / 10
+  return `${number(km)} ${km === 1 ? phrases.units.oneKm : phrases.units.km}`
+}
+
+const spokenHeight = (meters: number, units: string, phrases: Phrases) => units === 'imperial'
+  ? `${Math.round(meters * 3.28084)} ${phrases.units.heightFt}`
+  : `${meters.toLocaleString(phrases.locale, { maximumFractionDigits: 1 })} ${phrases.units.heightM}`
+
+// What to do at the end of a step, from its structured fields rather than the English
+// instruction text
+const stepAction = (steps: RouteStep[], i: number, phrases: Phrases): string => {
+  const step = steps[i], next = steps[i + 1]
+  if (!next) return phrases.arriveDestination
+  if (step.passage) return step.passage.kind === 'lock' ? phrases.lock(step.passage.name) : phrases.bridge(step.passage.name)
+  if (step.leg !== undefined && next.leg !== undefined && next.leg !== step.leg) return phrases.arriveStop(step.leg + 1)
+  const turn = phrases.turns[step.turn || 'straight']
+  return next.waterway && next.waterway !== step.waterway ? `${turn} ${phrases.onto(next.waterway)}` : turn
+}
+
+// Position along the route (meters) and distance from it for a point
+const projectOnRoute = (coordinates: [number, number][], point: [number, number]) => {
+  let along = 0
+  let best = { along: 0, off: Infinity }
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    const { point: snapped } = closestPointOnSegment(point, coordinates[i], coordinates[i + 1])
+    const off = haversine(point, snapped)
+    if (off < best.off) best = { along: along + haversine(coordinates[i], snapped), off }
+    along += haversine(coordinates[i], coordinates[i + 1])
+  }
+  return best
+}
+
+export const createVoiceGuidance = (
+  route: { coordinates: [number, number][], steps: RouteStep[] },
+  backend: SpeechBackend
+) => {
+  const { steps } = route
+  const spoken = new Set<string>() // Keys of announcements already made
+  let pois: POI[] = []
+  let hazards: Array<GuidanceHazard & { along: number }> = []
+  let started = false
+
+  const stepEnds: number[] = []
+  steps.reduce((end, step) => {
+    stepEnds.push(end + step.distance)
+    return end + step.distance
+  }, 0)
+
+  const say = (key: string, text: string, options: VoiceGuidanceOptions, urgent = false) => {
+    if (spoken.has(key)) return
+    spoken.add(key)
+    if (!options.enabled) return
+    console.log('🗣️', text)
+    backend.speak(text, phrasesFor(options.language).locale, urgent)
+  }
+
+  // Locks and bridges that do not already end a step (fixed bridges, mostly)
+  const setPois = (routePois: POI[]) => {
+    const passageAt = stepEnds.filter((_, i) => steps[i].passage)
+    pois = routePois.filter(poi =>
+      (poi.type === 'lock' || poi.type === 'bridge') &&
+      !passageAt.some(end => Math.abs(end - poi.distance) < SAME_PLACE_METERS))
+  }
+
+  const setHazards = (reports: GuidanceHazard[]) => {
+    hazards = reports
+      .map(report => ({ ...report, ...projectOnRoute(route.coordinates, report.location) }))
+      .filter(report => report.off <= HAZARD_ROUTE_METERS)
+  }
+
+  const update = (progress: NavigationProgress, options: VoiceGuidanceOptions) => {
+    const phrases = phrasesFor(options.language)
+    const distance = (meters: number) => spokenDistance(meters, options.units, phrases)
+
+    if (progress.arrived) {
+      say('arrived', phrases.arrived, options)
+      return
+    }
+
+    if (!started) {
+      started = true
+      const step = steps[progress.step]
+      if (step && progress.stepRemaining > STEP_THRESHOLDS[0]) {
+        say('start', phrases.follow(step.waterway, distance(progress.stepRemaining)), options)
+      }
+    }
+
+    // The closest threshold passed for the current step; the farther ones are skipped
+    const threshold = STEP_THRESHOLDS.filter(t => progress.stepRemaining <= t).pop()
+    if (threshold !== undefined && steps[progress.step]) {
+      STEP_THRESHOLDS.filter(t => t > threshold).forEach(t => spoken.add(`step:${progress.step}:${t}`))
+      const action = stepAction(steps, progress.step, phrases)
+      const last = threshold === STEP_THRESHOLDS[STEP_THRESHOLDS.length - 1]
+      say(`step:${progress.step}:${threshold}`, last ? action : phrases.inDistance(distance(progress.stepRemaining), action), options, last)
+    }
+
+    for (const poi of pois) {
+      const ahead = poi.distance - progress.travelled
+      if (ahead < 0 || ahead > POI_AHEAD_METERS) continue
+      const name = poi.name && !/^(Lock|Bridge)$/i.test(poi.name) ? poi.name : undefined
+      const label = poi.type === 'lock' ? phrases.lock(name) : phrases.bridge(name)
+      const clearance = poi.type === 'bridge' && poi.height ? `, ${phrases.clearance(spokenHeight(poi.height, options.units, phrases))}` : ''
+      say(`poi:${poi.id}`, `${phrases.inDistance(distance(ahead), label)}${clearance}`, options)
+    }
+
+    if (options.hazards) {
+      for (const hazard of hazards) {
+        const ahead = hazard.along - progress.travelled
+        if (ahead < 0 || ahead > HAZARD_AHEAD_METERS) continue
+        const label = phrases.hazards[hazard.type] || phrases.hazards.other
+        say(`hazard:${hazard.id}`, phrases.hazard(label, distance(ahead)), options)
+      }
+    }
+  }
+
+  const stop = () => backend.cancel()
+
+  return { update, setPois, setHazards, stop }
+}
+
+export type VoiceGuidance = ReturnType<typeof createVoiceGuidance>
+
+// Browser speech synthesis; null when the browser has none
+export const createWebSpeechBackend = (): SpeechBackend | null => {
+  if (typeof window === 'undefined' || !window.speechSynthesis) return null
+  const synth = window.speechSynthesis
+  return {
+    speak: (text, lang, urgent) => {
+      if (urgent) synth.cancel() // A manoeuvre right ahead beats whatever is still queued
+      const utterance = new SpeechSynthesisUtterance(text)
+      utterance.lang = lang
+      utterance.voice = synth.getVoices().find(voice => voice.lang === lang) ||
+        synth.getVoices().find(voice => voice.lang.startsWith(lang.slice(0, 2))) || null
+      synth.speak(utterance)
+    },
+    cancel: () => synth.cancel()
+  }
+}
+
+// Records announcements instead of speaking them, for tests and browsers without speech
+export const createFakeSpeechBackend = () => {
+  const spoken: Array<{ text: string, lang: string }> = []
+  const backend: SpeechBackend & { spoken: typeof spoken } = {
+    spoken,
+    speak: (text, lang) => {
+      spoken.push({ text, lang })
+    },
+    cancel: () => {}
+  }
+  return backend
+}
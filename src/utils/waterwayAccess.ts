@@ -0,0 +1,170 @@
+// Waterway access rules for VaarApp routing
+// Resolves access/boat/motorboat tags, including seasonal *:conditional restrictions
+
+// Most general first: a more specific tag overrides a general one (boat=yes beats access=no)
+const ACCESS_KEYS = ['access', 'boat', 'motorboat', 'ship'] as const
+
+// ship=* is about commercial and other large vessels. Craft of 20 m and longer count as ships,
+// as in the Dutch inland navigation rules; smaller boats go by access/boat/motorboat only.
+export const SHIP_MIN_LENGTH_METERS = 20
+
+export const isShipLength = (length?: number) => !!length && length >= SHIP_MIN_LENGTH_METERS
+
+const DENIED_VALUES = ['no', 'private']
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const WEEKDAYS = ['su', 'mo', 'tu', 'we', 'th', 'fr', 'sa'] // Date.getDay() order
+
+// Parsed opening_hours-style condition; every part that is present must match
+export interface TimeCondition {
+  dates?: Array<[number, number]> // Inclusive month*100+day ranges, may wrap the year end
+  weekdays?: boolean[] // Indexed like Date.getDay()
+  times?: Array<[number, number]> // Minutes since midnight, end may be before start (overnight)
+}
+
+export interface ConditionalValue {
+  value: string
+  condition: TimeCondition
+}
+
+// Access tags of one way, kept on its graph segments when they depend on the departure time
+export interface WaterwayAccess {
+  values: Partial<Record<typeof ACCESS_KEYS[number], string>>
+  conditional: Partial<Record<typeof ACCESS_KEYS[number], ConditionalValue[]>>
+}
+
+const monthDay = (month: string, day?: string, fallbackDay = 1) =>
+  (MONTHS.indexOf(month.toLowerCase()) + 1) * 100 + (day ? parseInt(day) : fallbackDay)
+
+const parseMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number)
+  return h * 60 + m
+}
+
+// Parse a condition like "Nov 1-Mar 31", "Apr-Oct Sa,Su 10:00-18:00" or "Mo-Fr 22:00-06:00".
+// Returns null for syntax we do not understand (sunrise, PH, weight limits ...).
+export const parseTimeCondition = (text: string): TimeCondition | null => {
+  const condition: TimeCondition = {}
+  const month = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)'
+  const day = '(\\d{1,2})(?![\\d:])' // Not the hour of a following time range
+  const dateRange = new RegExp(`^${month}(?:\\s+${day})?(?:\\s*-\\s*(?:${month}\\s*)?(?:${day})?)?(?![a-z])`, 'i')
+  const dayRange = /^(mo|tu|we|th|fr|sa|su)(?:\s*-\s*(mo|tu|we|th|fr|sa|su))?(?![a-z])/i
+  const timeRange = /^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})/
+
+  let rest = text.trim()
+  while (rest.length > 0) {
+    let match: RegExpMatchArray | null
+    if ((match = rest.match(dateRange))) {
+      const [, m1, d1, m2, d2] = match
+      const from = monthDay(m1, d1)
+      // "Apr-Oct" runs to the end of October, "Jun 15-30" stays in June, "May 1" is one day
+      const to = m2 || d2 ? monthDay(m2 || m1, d2, 31) : d1 ? from : monthDay(m1, undefined, 31)
+      ;(condition.dates ||= []).push([from, to])
+    } else if ((match = rest.match(dayRange))) {
+      const from = WEEKDAYS.indexOf(match[1].toLowerCase())
+      const to = match[2] ? WEEKDAYS.indexOf(match[2].toLowerCase()) : from
+      condition.weekdays ||= new Array(7).fill(false)
+      for (let d = from; ; d = (d + 1) % 7) {
+        condition.weekdays[d] = true
+        if (d === to) break
+      }
+    } else if ((match = rest.match(timeRange))) {
+      ;(condition.times ||= []).push([parseMinutes(match[1]), parseMinutes(match[2])])
+    } else {
+      return null
+    }
+    rest = rest.slice(match[0].length).replace(/^[\s,]+/, '')
+  }
+
+  return condition.dates || condition.weekdays || condition.times ? condition : null
+}
+
+const inRange = (value: number, [from, to]: [number, number]) =>
+  from <= to ? value >= from && value <= to : value >= from || value <= to
+
+// Time ranges exclude their end minute, so 22:00-06:00 and 06:00-08:00 do not overlap
+const inTimeRange = (minutes: number, [from, to]: [number, number]) =>
+  from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to
+
+export const matchesTimeCondition = (condition: TimeCondition, date: Date) => {
+  const md = (date.getMonth() + 1) * 100 + date.getDate()
+  const minutes = date.getHours() * 60 + date.getMinutes()
+  if (condition.dates && !condition.dates.some(range => inRange(md, range))) return false
+  if (condition.weekdays && !condition.weekdays[date.getDay()]) return false
+  if (condition.times && !condition.times.some(range => inTimeRange(minutes, range))) return false
+  return true
+}
+
+// Parse a *:conditional value: "no @ (Nov 1-Mar 31); yes @ (Sa,Su)"
+export const parseConditional = (value?: string): ConditionalValue[] => {
+  if (!value) return []
+  const result: ConditionalValue[] = []
+  // Split on semicolons outside parentheses
+  const parts: string[] = []
+  let depth = 0, current = ''
+  for (const ch of value) {
+    if (ch === '(') depth++
+    if (ch === ')') depth--
+    if (ch === ';' && depth === 0) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += ch
+    }
+  }
+  parts.push(current)
+
+  for (const part of parts) {
+    const match = part.match(/^\s*([^@]+?)\s*@\s*\(?(.*?)\)?\s*$/)
+    const condition = match ? parseTimeCondition(match[2]) : null
+    if (!match || !condition) {
+      console.warn('⚠️ Ignoring unsupported conditional restriction:', part.trim())
+      continue
+    }
+    result.push({ value: match[1].toLowerCase(), condition })
+  }
+  return result
+}
+
+// Collect access tags of a way; null when the way has none
+export const extractAccess = (tags: Record<string, string> = {}): WaterwayAccess | null => {
+  const access: WaterwayAccess = { values: {}, conditional: {} }
+  let found = false
+  for (const key of ACCESS_KEYS) {
+    if (tags[key]) {
+      access.values[key] = tags[key].toLowerCase()
+      found = true
+    }
+    const conditional = parseConditional(tags[`${key}:conditional`])
+    if (conditional.length > 0) {
+      access.conditional[key] = conditional
+      found = true
+    }
+  }
+  return found ? access : null
+}
+
+export const hasConditionalAccess = (access: WaterwayAccess) => Object.keys(access.conditional).length > 0
+
+// Is the boat allowed? The most specific tag with a value decides; a matching conditional
+// value replaces the plain one (the last matching condition wins). Without a date,
+// conditional restrictions are ignored. ship=* only counts for ships (see isShipLength).
+export const isAccessAllowed = (access: WaterwayAccess | null | undefined, date?: Date, ship = false) => {
+  if (!access) return true
+  let value: string | undefined
+  for (const key of ACCESS_KEYS) {
+    if (key === 'ship' && !ship) continue
+    let keyValue = access.values[key]
+    if (date) {
+      for (const conditional of access.conditional[key] || []) {
+        if (matchesTimeCondition(conditional.condition, date)) keyValue = conditional.value
+      }
+    }
+    if (keyValue) value = keyValue
+  }
+  return !value || !DENIED_VALUES.includes(value)
+}
+
+// Does the verdict differ between ships and smaller boats?
+export const dependsOnVesselSize = (access: WaterwayAccess) =>
+  isAccessAllowed(access, undefined, false) !== isAccessAllowed(access, undefined, true)
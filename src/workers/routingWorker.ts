@@ -0,0 +1,81 @@
+// Routing Web Worker - builds the waterway graph and runs the path search off the main thread
+// (the original kanaalkaart HTML did the same with its Dijkstra worker)
+
+import { Bounds, computeRouteOnElements, ComputedRoute, createAbortError, RouteParams, RouteProgress } from '../utils/routing'
+import { getCachedGraph, isRegionCached } from '../utils/routingGraphCache'
+
+export type RoutingWorkerRequest =
+  | { type: 'route', id: number, elements: any[], start: [number, number], end: [number, number], params?: RouteParams }
+  | { type: 'cancel', id: number }
+  | { type: 'covers', id: number, region: Bounds }
+  | { type: 'merge', id: number, elements: any[], region: Bounds }
+
+export type RoutingWorkerResponse =
+  | { type: 'progress', id: number, progress: RouteProgress }
+  | { type: 'result', id: number, route: ComputedRoute | null }
+  | { type: 'cancelled', id: number }
+  | { type: 'error', id: number, name: string, message: string }
+  | { type: 'covers', id: number, covered: boolean }
+  | { type: 'merged', id: number }
+
+const ctx = self as unknown as Worker
+
+// In-flight jobs by request id
+const jobs = new Map<number, AbortController>()
+
+// Route jobs run one at a time: they share the cached graph, which merging extends
+let queue: Promise<void> = Promise.resolve()
+
+const post = (message: RoutingWorkerResponse) => ctx.postMessage(message)
+
+const runRoute = async (request: Extract<RoutingWorkerRequest, { type: 'route' }>, controller: AbortController) => {
+  try {
+    if (controller.signal.aborted) throw createAbortError() // Cancelled while queued
+    const route = await computeRouteOnElements(request.elements, request.start, request.end, {
+      signal: controller.signal,
+      params: request.params,
+      onProgress: (progress) => post({ type: 'progress', id: request.id, progress }),
+      graphFor: getCachedGraph
+    })
+    post({ type: 'result', id: request.id, route })
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      post({ type: 'cancelled', id: request.id })
+    } else {
+      post({ type: 'error', id: request.id, name: error?.name || 'Error', message: error?.message || String(error) })
+    }
+  } finally {
+    jobs.delete(request.id)
+  }
+}
+
+ctx.onmessage = async (event: MessageEvent<RoutingWorkerRequest>) => {
+  const request = event.data
+
+  if (request.type === 'cancel') {
+    jobs.get(request.id)?.abort()
+    return
+  }
+
+  if (request.type === 'covers') {
+    post({ type: 'covers', id: request.id, covered: await isRegionCached(request.region) })
+    return
+  }
+
+  // Data downloaded ahead of time (offline packs) goes into the graph between route jobs
+  if (request.type === 'merge') {
+    queue = queue.then(async () => {
+      try {
+        await getCachedGraph(request.elements, { params: { region: request.region } })
+        post({ type: 'merged', id: request.id })
+      } catch (error: any) {
+        post({ type: 'error', id: request.id, name: error?.name || 'Error', message: error?.message || String(error) })
+      }
+    })
+    return
+  }
+
+  const controller = new AbortController()
+  jobs.set(request.id, controller)
+  queue = queue.then(() => runRoute(request, controller))
+}
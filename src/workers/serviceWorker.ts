@@ -0,0 +1,127 @@
+// Service worker for VaarApp
+// Keeps the app shell in a versioned cache so the app starts without signal, caches base map
+// tiles as they are viewed, and waits for the user's go-ahead before a new build takes over.
+// Built by the service worker plugin in vite.config.ts, which fills in the two constants below.
+
+declare const __PRECACHE_URLS__: string[]
+declare const __BUILD_VERSION__: string
+
+// The parts of the service worker scope used here; the DOM typings the app is checked
+// against do not include them
+interface ExtendableEvent extends Event {
+  waitUntil: (promise: Promise<unknown>) => void
+}
+
+interface FetchEvent extends ExtendableEvent {
+  request: Request
+  respondWith: (response: Response | Promise<Response>) => void
+}
+
+interface ServiceWorkerScope {
+  addEventListener: (type: string, listener: (event: any) => void) => void
+  skipWaiting: () => Promise<void>
+  clients: { claim: () => Promise<void> }
+  location: Location
+}
+
+const sw = self as unknown as ServiceWorkerScope
+
+const SHELL_CACHE = `vaarapp-shell-${__BUILD_VERSION__}`
+const TILE_CACHE = 'vaarapp-tiles' // Tiles seen while browsing; offline packs use their own cache
+const STATIC_CACHE = 'vaarapp-static' // Fonts and scripts from other origins
+const MAX_CACHED_TILES = 3000
+
+const TILE_HOSTS = ['service.pdok.nl', 'server.arcgisonline.com']
+const STATIC_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com', 'rawgit.com']
+
+sw.addEventListener('install', (event: ExtendableEvent) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then(cache => cache.addAll(__PRECACHE_URLS__))
+  )
+})
+
+// Drop the shells of earlier builds once this one is in charge
+sw.addEventListener('activate', (event: ExtendableEvent) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys()
+    await Promise.all(names
+      .filter(name => name.startsWith('vaarapp-shell-') && name !== SHELL_CACHE)
+      .map(name => caches.delete(name)))
+    await sw.clients.claim()
+  })())
+})
+
+// The update prompt in the app asks the waiting worker to take over
+sw.addEventListener('message', (event: MessageEvent) => {
+  if (event.data?.type === 'SKIP_WAITING') sw.skipWaiting()
+})
+
+// Oldest tiles go first; Cache Storage keeps insertion order
+const trimTileCache = async () => {
+  const cache = await caches.open(TILE_CACHE)
+  const keys = await cache.keys()
+  for (const request of keys.slice(0, Math.max(0, keys.length - MAX_CACHED_TILES))) {
+    await cache.delete(request)
+  }
+}
+
+// Any cache first (downloaded packs included), then the network, keeping what comes back.
+// Map images are no-cors requests; the tile servers send CORS headers, so they are fetched
+// with CORS instead. Opaque responses count for several MB each against the storage quota,
+// which would crowd out the offline packs.
+const cacheFirst = async (request: Request, cacheName: string, onStored?: () => Promise<void>) => {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  const response = await fetch(request.url, { mode: 'cors', credentials: 'omit' })
+  if (response.ok) {
+    const cache = await caches.open(cacheName)
+    await cache.put(request, response.clone())
+    onStored?.().catch(() => undefined)
+  }
+  return response
+}
+
+// Cached copy straight away, refreshed in the background for next time
+const staleWhileRevalidate = async (event: FetchEvent, cacheName: string) => {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(event.request)
+  const refresh = fetch(event.request).then(async response => {
+    if (response.ok || response.type === 'opaque') await cache.put(event.request, response.clone())
+    return response
+  })
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined))
+    return cached
+  }
+  return refresh
+}
+
+sw.addEventListener('fetch', (event: FetchEvent) => {
+  const { request } = event
+  if (request.method !== 'GET') return // Overpass queries are POSTs and have their own cache
+  const url = new URL(request.url)
+
+  // Every route of the single-page app starts from the cached index.html
+  if (request.mode === 'navigate' && url.origin === sw.location.origin) {
+    event.respondWith(
+      caches.match('/index.html', { cacheName: SHELL_CACHE }).then(cached => cached || fetch(request))
+    )
+    return
+  }
+
+  if (url.origin === sw.location.origin) {
+    event.respondWith(caches.match(request, { cacheName: SHELL_CACHE }).then(cached => cached || fetch(request)))
+    return
+  }
+
+  if (TILE_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, TILE_CACHE, trimTileCache))
+    return
+  }
+
+  if (STATIC_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event, STATIC_CACHE))
+  }
+})
+
+export {}
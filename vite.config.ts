@@ -1,8 +1,47 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin, transformWithEsbuild } from 'vite'
 import react from '@vitejs/plugin-react'
+import { readFileSync } from 'node:fs'
+import { createHash } from 'node:crypto'
+
+// Files from public/ that belong to the app shell
+const PUBLIC_PRECACHE = [
+  '/boat-icon.svg', '/bridge.png', '/manifest.webmanifest', '/icon-192.png', '/icon-512.png', '/apple-touch-icon.png'
+]
+
+// Builds src/workers/serviceWorker.ts into /sw.js with the list of files to precache.
+// The version is a hash of the emitted files and the worker itself, so every build that changes
+// anything installs a new worker.
+const serviceWorker = (): Plugin => ({
+  name: 'vaarapp-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  async generateBundle(_options, bundle) {
+    const assets = Object.keys(bundle)
+      .filter(fileName => !fileName.endsWith('.map'))
+      .map(fileName => `/${fileName}`)
+    const precache = [...assets, ...PUBLIC_PRECACHE]
+
+    const file = 'src/workers/serviceWorker.ts'
+    const source = readFileSync(file, 'utf-8')
+    const hash = createHash('sha256').update(source)
+    for (const output of Object.values(bundle)) {
+      hash.update(output.type === 'chunk' ? output.code : output.source)
+    }
+    const version = hash.digest('hex').slice(0, 12)
+
+    const { code } = await transformWithEsbuild(source, file, {
+      format: 'iife',
+      define: {
+        __PRECACHE_URLS__: JSON.stringify(precache),
+        __BUILD_VERSION__: JSON.stringify(version)
+      }
+    })
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source: code })
+  }
+})
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   server: {
     port: 3000,
     open: true,